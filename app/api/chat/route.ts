@@ -4,7 +4,10 @@ import { z } from 'zod';
 // import { RAGOrchestratorFactory } from '@/lib/RAGOrchestrator';
 // import { logger, LogCategory } from '../../../lib/logging/Logger';
 import { findRelevantContent } from '@/lib/actions/findRelevantContent';
+import { findGraphExpandedContent } from '@/lib/actions/findGraphExpandedContent';
 import { getDateAndTimeFromQuery } from '@/lib/actions/getDateAndTimeFromQuery';
+import { supabaseService } from '@/lib/database/SupabaseService';
+import { languageVersionResolver } from '@/lib/retrieval/LanguageVersions';
 
 // Allow streaming responses up to 30 seconds
 export const maxDuration = 30;
@@ -47,17 +50,119 @@ const tools = {
     inputSchema: z.object({
       question: z.string().describe('the users query to find the relevant chunks'),
       limit: z.number().optional().default(10).describe('the number of chunks to return'),
-      search_table: z.string().default('brdr_documents_data').describe('the table to search in'),
+      search_table: z.enum(['brdr_documents_data', 'brdr_documents']).default('brdr_documents_data').describe('search page chunks (brdr_documents_data) or whole documents (brdr_documents)'),
       similarity_threshold: z.number().optional().default(0.1).describe('the similarity threshold to use for the semantic similarity'),
+      fusion_strategy: z.enum(['rrf', 'weighted']).optional().default('rrf').describe('how to fuse vector and keyword results: reciprocal rank fusion or weighted normalised scores'),
+      vector_weight: z.number().optional().describe('weight of the vector search results in the fusion'),
+      keyword_weight: z.number().optional().describe('weight of the keyword search results in the fusion, raise it for exact terms such as guideline numbers'),
+      rerank: z.boolean().optional().default(false).describe('rescore the candidates against the question before returning them'),
+      rerank_strategy: z.enum(['cross-encoder', 'llm']).optional().default('cross-encoder').describe('use a local cross-encoder or an LLM judge for reranking'),
+      filters: z.object({
+        doc_types: z.array(z.string()).optional().describe('only documents of these types, e.g. ["Circular"] or ["Guideline"]'),
+        topics: z.array(z.string()).optional().describe('only documents tagged with these topics, e.g. ["Capital Adequacy"]'),
+        guideline_nos: z.array(z.string()).optional().describe('only these guideline numbers, e.g. ["CA-G-1"]'),
+        version_codes: z.array(z.string()).optional().describe('only documents with these version codes'),
+        doc_views: z.array(z.string()).optional().describe('only documents listed under these BRDR views'),
+        exclude_superseded: z.boolean().optional().describe('drop documents that have been superseded'),
+        languages: z.array(z.enum(['en', 'zh-Hant'])).optional().describe('only documents in these languages; leave unset to search the English and Traditional Chinese versions'),
+      }).optional().describe('structured metadata filters, only set the ones the users question asks for'),
+      superseded_documents: z.enum(['demote', 'exclude', 'include']).optional().default('demote').describe('how to treat chunks from superseded documents; use include only for historical or lineage questions'),
+      context_window: z.number().optional().default(0).describe('also return this many neighbouring chunks of the same type (pages, sections, ...) before and after every match, e.g. 1 when an answer may continue on the next page'),
+      small_to_big: z.boolean().optional().default(false).describe('match precise sentences and paragraphs, but return the whole section around them; falls back to a normal search when the documents have no sentence or paragraph chunks'),
     }),
-    execute: async ({ question, limit, search_table, similarity_threshold }) => {
-      const result = await findRelevantContent(question, limit, search_table, similarity_threshold);
+    execute: async ({ question, limit, search_table, similarity_threshold, fusion_strategy, vector_weight, keyword_weight, rerank, rerank_strategy, filters, superseded_documents, context_window, small_to_big }) => {
+      const result = await findRelevantContent(question, limit, search_table, similarity_threshold, {
+        fusion: {
+          strategy: fusion_strategy,
+          weights: { vector: vector_weight, keyword: keyword_weight }
+        },
+        rerank: {
+          enabled: rerank,
+          strategy: rerank_strategy
+        },
+        filters: {
+          docTypes: filters?.doc_types,
+          topics: filters?.topics,
+          guidelineNos: filters?.guideline_nos,
+          versionCodes: filters?.version_codes,
+          docViews: filters?.doc_views,
+          excludeSuperseded: filters?.exclude_superseded,
+          languages: filters?.languages
+        },
+        supersession: superseded_documents,
+        contextWindow: context_window,
+        smallToBig: { enabled: small_to_big }
+      });
       console.log("result from find_relevant_brdr_document_data is", result);
       // Check if the result is an error object
       return result;
     },
   }),
 
+  find_related_brdr_document_data: tool({
+    description: "Get the chunks relevant to the users question together with chunks from the documents they reference, supersede or are amended by",
+    inputSchema: z.object({
+      question: z.string().describe('the users query to find the relevant chunks'),
+      limit: z.number().optional().default(5).describe('the number of chunks to return from the directly matching documents'),
+      search_table: z.enum(['brdr_documents_data', 'brdr_documents']).default('brdr_documents_data').describe('search page chunks (brdr_documents_data) or whole documents (brdr_documents)'),
+      similarity_threshold: z.number().optional().default(0.1).describe('the similarity threshold to use for the semantic similarity'),
+      relation_types: z.array(z.enum(['directly_related', 'reference', 'version_history', 'superseded'])).optional().describe('only follow these relations, all of them by default'),
+      max_linked_documents: z.number().optional().default(10).describe('the maximum number of linked documents to search'),
+      linked_limit: z.number().optional().default(5).describe('the number of chunks to return from the linked documents'),
+    }),
+    execute: async ({ question, limit, search_table, similarity_threshold, relation_types, max_linked_documents, linked_limit }) => {
+      const result = await findGraphExpandedContent(question, limit, search_table, similarity_threshold, {
+        relationTypes: relation_types,
+        maxLinkedDocuments: max_linked_documents,
+        linkedChunkLimit: linked_limit
+      });
+      console.log("result from find_related_brdr_document_data is", result);
+      return result;
+    },
+  }),
+
+  find_brdr_table_rows: tool({
+    description: "Look up exact rows in the tables of the BRDR documents, e.g. reporting item codes or risk weights",
+    inputSchema: z.object({
+      query: z.string().describe('the key terms of the row to find, e.g. "risk weight claims on banks"'),
+      limit: z.number().optional().default(10).describe('the number of rows to return'),
+      doc_types: z.array(z.string()).optional().describe('only tables in documents of these types'),
+      guideline_nos: z.array(z.string()).optional().describe('only tables in these guidelines, e.g. ["CA-G-1"]'),
+    }),
+    execute: async ({ query, limit, doc_types, guideline_nos }) => {
+      const rows = await supabaseService.searchTableRows(query, {
+        match_count: limit,
+        filters: { docTypes: doc_types, guidelineNos: guideline_nos }
+      });
+      const result = await languageVersionResolver.apply(rows);
+      console.log("result from find_brdr_table_rows is", result);
+      return result;
+    },
+  }),
+
+  find_brdr_consultations: tool({
+    description: "List HKMA consultation papers by where they stand today: open for comments, not yet open, closed or unknown when BRDR gives no dates, optionally only those closing within N days",
+    inputSchema: z.object({
+      status: z.enum(['open', 'upcoming', 'closed', 'unknown', 'all']).optional().default('open').describe('open consultations by default; upcoming ones have not opened yet'),
+      closing_within_days: z.number().optional().describe('only consultations closing in the next N days, e.g. 30 for "closing this month"'),
+      topics: z.array(z.string()).optional().describe('only consultations tagged with these topics, e.g. ["Liquidity"]'),
+      language: z.enum(['en', 'zh-Hant']).optional().default('en').describe('the language of the user\'s question; every paper is listed once, in this language when it has a version in it'),
+      limit: z.number().optional().default(20).describe('the number of consultations to return'),
+    }),
+    execute: async ({ status, closing_within_days, topics, language, limit }) => {
+      const consultations = await supabaseService.findConsultations({
+        status,
+        closingWithinDays: closing_within_days,
+        match_count: limit,
+        filters: { topics },
+        language
+      });
+      const result = await languageVersionResolver.apply(consultations);
+      console.log("result from find_brdr_consultations is", result);
+      return result;
+    },
+  }),
+
   // tell_the_user_the_answer: tool({
   //   description: `
   //   If the result is null, then say nothing. End the conversation.
@@ -138,6 +243,15 @@ export async function POST(req: Request) {
     You are an expert AI assistant and you help user answer queries by running the tools provided to you.
             The tools available to you is **find_relevant_brdr_document_data** to find the relevant chunks from the brdr_documents_data using semantic similarity. 
             Use the chunks from the tool to answer the users question.
+            When the question names a document type (e.g. "only Circulars"), a topic, a guideline number (e.g. CA-G-1) or asks for current guidance only, set the matching filters on the tool.
+            Use **find_related_brdr_document_data** instead when the question is about how documents relate, what a circular amends or references, or when the answer likely spans a document and the guidance it builds on. Chunks with related_via were pulled in through that relation.
+            For questions about a specific value in a table (a risk weight, an item code, a threshold), use **find_brdr_table_rows** and answer from the exact row, citing the document and page.
+            For questions about consultations (which are open, which close soon, on which topic), use **find_brdr_consultations** and give each consultation's title, closing date and days_until_close.
+            Chunks with a matched field are sections returned for a precise sentence or paragraph match; matched.content is the passage that matched.
+            Chunks with a context field come with their neighbouring chunks; answer from context.content, which is the stitched passage in document order.
+            Chunks with superseded = true come from guidance that is no longer current. Prefer current chunks; if you rely on a superseded chunk, quote its supersession.notice verbatim in the answer.
+            Answer in the language of the user's question: Traditional Chinese when the user writes in Chinese, English otherwise. Search both languages unless the user asks for one.
+            Every chunk has a language ('en' or 'zh-Hant') and a pdf_url. Cite pdf_url when the chunk is in the user's language, otherwise cite translation.pdf_url when it is set, so the user gets the PDF in their own language.
             `,
     tools,
   });
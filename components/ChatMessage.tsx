@@ -8,7 +8,54 @@ interface ChatMessageProps {
   message: UIMessage;
   isLast: boolean;
   onClarificationSelect?: (option: string) => void;
-  onDocumentClick: (doc_id: string, pageNumber: number, chunkText: string, messageId?: string) => void;
+  onDocumentClick: (doc_id: string, pageNumber: number, chunkText: string, messageId?: string, pdfUrl?: string) => void;
+}
+
+interface RetrieverContribution {
+  retriever: string;
+  rank: number;
+  score: number;
+}
+
+interface SupersessionInfo {
+  superseded_on: string;
+  superseded_by: { doc_id: string; title?: string }[];
+  notice: string;
+}
+
+interface RelatedVia {
+  doc_id: string;
+  relation_type: string;
+  direction: 'outgoing' | 'incoming';
+}
+
+interface LanguageVersion {
+  doc_id: string;
+  language: string;
+  pdf_url: string;
+}
+
+interface TableRowMatch {
+  id: string;
+  doc_id: string;
+  chunk_id: number;
+  page_number: number;
+  headers: string[];
+  table_row: Record<string, string>;
+  match_score: number;
+  language?: string;
+  pdf_url?: string;
+}
+
+interface ConsultationMatch {
+  id: string;
+  doc_id: string;
+  doc_long_title: string;
+  consultation_status: 'upcoming' | 'open' | 'closed' | 'unknown';
+  consult_open_date: string | null;
+  consult_cls_date: string | null;
+  days_until_close: number | null;
+  pdf_url?: string;
 }
 
 interface VectorSearchResult {
@@ -16,10 +63,32 @@ interface VectorSearchResult {
   doc_id: string;
   content: string;
   similarity: number;
+  fused_score?: number;
+  contributions?: RetrieverContribution[];
+  original_rank?: number;
+  rerank_score?: number;
+  superseded?: boolean;
+  supersession?: SupersessionInfo;
+  related_via?: RelatedVia;
+  language?: string;
+  pdf_url?: string;
+  translation?: LanguageVersion;
+  matched?: {
+    id: string;
+    chunk_type?: string;
+    content: string;
+  };
+  context?: {
+    chunk_ids: number[];
+    original_chunk_ids: number[];
+    content: string;
+  };
   metadata: {
     chunkId: string;
     pageNumber: number;
     chunkType: string;
+    headingPath?: string[];
+    sectionNumber?: string;
     originalContent?: string;
   };
 }
@@ -129,7 +198,112 @@ export default function ChatMessage({ message, isLast, onClarificationSelect, on
                   }
               }
             
-              case 'tool-find_relevant_brdr_document_data': {
+              case 'tool-find_brdr_table_rows': {
+                const callId = part.toolCallId;
+
+                switch (part.state) {
+                  case 'input-streaming':
+                    return (
+                      <div key={callId} className="flex items-center space-x-2">
+                        <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-current"></div>
+                        <span>Searching tables...</span>
+                      </div>
+                    );
+                  case 'input-available':
+                    return (
+                      <div key={callId} className="text-sm bg-blue-50 p-3 rounded-lg border border-blue-200">
+                        <strong>Table lookup:</strong> {(part.input as { query: string }).query}
+                      </div>
+                    );
+                  case 'output-available': {
+                    const rows = part.output as TableRowMatch[];
+                    return (
+                      <div key={callId} className="text-xs bg-purple-50 p-3 rounded-lg border border-purple-200">
+                        <div className="font-semibold text-purple-800 mb-2">Matching Table Rows ({rows.length})</div>
+                        <div className="space-y-2 max-h-96 overflow-y-auto">
+                          {rows.map((row, idx) => (
+                            <div key={`${row.id}-${idx}`} className="bg-white p-2 rounded border border-purple-200">
+                              <button
+                                onClick={() => onDocumentClick(row.doc_id, row.page_number || 1, Object.values(row.table_row).join(' '), message.id, row.pdf_url)}
+                                className="text-purple-600 hover:text-purple-800 hover:underline font-medium mb-1"
+                              >
+                                📄 {row.doc_id} · Page {row.page_number}
+                              </button>
+                              <table className="w-full text-left border-collapse">
+                                <tbody>
+                                  {row.headers.map(header => (
+                                    <tr key={header} className="border-t border-gray-100">
+                                      <th className="pr-2 py-0.5 font-medium text-gray-700 align-top">{header}</th>
+                                      <td className="py-0.5 text-gray-600">{row.table_row[header]}</td>
+                                    </tr>
+                                  ))}
+                                </tbody>
+                              </table>
+                            </div>
+                          ))}
+                        </div>
+                      </div>
+                    );
+                  }
+                  case 'output-error':
+                    return (
+                      <div key={callId} className="text-sm text-red-500 bg-red-50 p-3 rounded-lg border border-red-200">
+                        ❌ Table lookup error: {part.errorText}
+                      </div>
+                    );
+                }
+                break;
+              }
+
+              case 'tool-find_brdr_consultations': {
+                const callId = part.toolCallId;
+
+                switch (part.state) {
+                  case 'input-streaming':
+                  case 'input-available':
+                    return (
+                      <div key={callId} className="flex items-center space-x-2">
+                        <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-current"></div>
+                        <span>Looking up consultations...</span>
+                      </div>
+                    );
+                  case 'output-available': {
+                    const consultations = part.output as ConsultationMatch[];
+                    return (
+                      <div key={callId} className="text-xs bg-amber-50 p-3 rounded-lg border border-amber-200">
+                        <div className="font-semibold text-amber-800 mb-2">Consultations ({consultations.length})</div>
+                        <div className="space-y-2 max-h-96 overflow-y-auto">
+                          {consultations.map(consultation => (
+                            <div key={consultation.id} className="bg-white p-2 rounded border border-amber-200">
+                              <button
+                                onClick={() => onDocumentClick(consultation.doc_id, 1, consultation.doc_long_title, message.id, consultation.pdf_url)}
+                                className="text-amber-700 hover:text-amber-900 hover:underline font-medium text-left"
+                              >
+                                📄 {consultation.doc_long_title}
+                              </button>
+                              <div className="text-gray-600 mt-1">
+                                {consultation.consultation_status}
+                                {consultation.consult_cls_date && ` · closes ${consultation.consult_cls_date.slice(0, 10)}`}
+                                {consultation.consultation_status === 'open' && consultation.days_until_close !== null && consultation.days_until_close >= 0 && ` (${consultation.days_until_close} days left)`}
+                              </div>
+                            </div>
+                          ))}
+                        </div>
+                      </div>
+                    );
+                  }
+                  case 'output-error':
+                    return (
+                      <div key={callId} className="text-sm text-red-500 bg-red-50 p-3 rounded-lg border border-red-200">
+                        ❌ Consultation lookup error: {part.errorText}
+                      </div>
+                    );
+                }
+                break;
+              }
+
+              case 'tool-find_relevant_brdr_document_data':
+              case 'tool-find_related_brdr_document_data': {
                 const callId = part.toolCallId;
                 // console.log("Tool called: find_relevant_brdr_document_data with callId", callId)
 
@@ -172,7 +346,7 @@ export default function ChatMessage({ message, isLast, onClarificationSelect, on
                               <div className="mt-2 space-y-1 text-xs">
                                 <div>📄 Chunks found: {output ? output.length : 0}</div>
                                 <div>🎯 Similarity threshold: Applied</div>
-                                <div>🔍 Search type: Vector semantic search</div>
+                                <div>🔍 Search type: Hybrid vector + keyword search (rank fusion)</div>
                               </div>
                             </div>
                         )}
@@ -193,7 +367,8 @@ export default function ChatMessage({ message, isLast, onClarificationSelect, on
                                           chunk.doc_id, 
                                           chunk.metadata?.pageNumber || 1, 
                                           chunk.content,
-                                          message.id
+                                          message.id,
+                                          chunk.pdf_url
                                         );
                                       }}
                                       className="text-purple-600 hover:text-purple-800 hover:underline transition-colors font-medium text-sm flex items-center space-x-1"
@@ -203,17 +378,50 @@ export default function ChatMessage({ message, isLast, onClarificationSelect, on
                                       </svg>
                                       <span>📄 {chunk.doc_id}</span>
                                     </button>
-                                    <div className="text-xs text-gray-500">
-                                      Similarity: {(chunk.similarity * 100).toFixed(1)}%
+                                    {chunk.translation && (
+                                      <button
+                                        onClick={() => onDocumentClick(chunk.translation!.doc_id, 1, chunk.content, message.id, chunk.translation!.pdf_url)}
+                                        className="ml-2 text-[10px] text-purple-500 hover:text-purple-700 hover:underline"
+                                      >
+                                        {chunk.translation.language === 'zh-Hant' ? '中文版' : 'English version'}
+                                      </button>
+                                    )}
+                                    {chunk.superseded && (
+                                      <span
+                                        title={chunk.supersession?.notice}
+                                        className="ml-2 px-2 py-0.5 rounded-full bg-amber-100 text-amber-800 border border-amber-300 text-[10px] font-semibold uppercase"
+                                      >
+                                        Superseded{chunk.supersession?.superseded_on ? ` ${chunk.supersession.superseded_on}` : ''}
+                                      </span>
+                                    )}
+                                    <div className="text-xs text-gray-500 text-right">
+                                      <div>Similarity: {(chunk.similarity * 100).toFixed(1)}%</div>
+                                      {chunk.rerank_score !== undefined && (
+                                        <div>Rerank: {(chunk.rerank_score * 100).toFixed(1)}% (was #{chunk.original_rank})</div>
+                                      )}
                                     </div>
                                   </div>
                                   
+                                  {chunk.metadata?.headingPath && chunk.metadata.headingPath.length > 0 && (
+                                    <nav aria-label="Section" className="text-xs text-gray-500 mb-1 flex flex-wrap items-center">
+                                      {chunk.metadata.headingPath.map((heading, headingIdx) => (
+                                        <span key={headingIdx} className="flex items-center">
+                                          {headingIdx > 0 && <span className="mx-1 text-gray-400">›</span>}
+                                          <span className={headingIdx === chunk.metadata.headingPath!.length - 1 ? 'font-medium text-gray-700' : ''}>{heading}</span>
+                                        </span>
+                                      ))}
+                                    </nav>
+                                  )}
+
                                   <div className="text-xs text-gray-600 mb-2">
                                     {chunk.metadata ? (
                                       <>
                                         <span className="font-medium">Chunk ID:</span> {chunk.metadata.chunkId} | 
                                         <span className="font-medium"> Page:</span> {chunk.metadata.pageNumber} | 
                                         <span className="font-medium"> Type:</span> {chunk.metadata.chunkType}
+                                        {chunk.context && chunk.context.chunk_ids.length > 1 && (
+                                          <> | <span className="font-medium"> With chunks:</span> {chunk.context.chunk_ids[0]}–{chunk.context.chunk_ids[chunk.context.chunk_ids.length - 1]}</>
+                                        )}
                                       </>
                                     ) : (
                                       <span className="font-medium text-red-500">No metadata available</span>
@@ -221,6 +429,32 @@ export default function ChatMessage({ message, isLast, onClarificationSelect, on
                                     {/* Debug metadata */}
                                     {/* {(() => { console.log('Chunk metadata:', chunk.metadata); return null; })()} */}
                                   </div>
+
+                                  {chunk.superseded && chunk.supersession && (
+                                    <div className="text-xs text-amber-800 bg-amber-50 p-2 rounded border border-amber-200 mb-2">
+                                      ⚠️ {chunk.supersession.notice}
+                                    </div>
+                                  )}
+
+                                  {chunk.matched && (
+                                    <div className="text-xs text-sky-800 bg-sky-50 p-2 rounded border border-sky-200 mb-2">
+                                      <span className="font-medium">Matched {chunk.matched.chunk_type || 'passage'}:</span>{' '}
+                                      {chunk.matched.content.substring(0, 200)}{chunk.matched.content.length > 200 ? '...' : ''}
+                                    </div>
+                                  )}
+
+                                  {chunk.related_via && (
+                                    <div className="text-xs text-teal-800 bg-teal-50 p-2 rounded border border-teal-200 mb-2">
+                                      🔗 Linked via {chunk.related_via.doc_id} ({chunk.related_via.relation_type.replace(/_/g, ' ')}, {chunk.related_via.direction === 'outgoing' ? 'listed by it' : 'lists it'})
+                                    </div>
+                                  )}
+
+                                  {chunk.contributions && chunk.contributions.length > 0 && (
+                                    <div className="text-xs text-gray-500 mb-2">
+                                      <span className="font-medium">Matched by:</span>{' '}
+                                      {chunk.contributions.map(c => `${c.retriever} #${c.rank}`).join(', ')}
+                                    </div>
+                                  )}
                                   
                                   <div className="text-xs bg-gray-50 p-2 rounded border">
                                     <div className="font-semibold mb-1 text-gray-700">Chunk Content:</div>
@@ -262,7 +496,8 @@ export default function ChatMessage({ message, isLast, onClarificationSelect, on
                                         doc_id, 
                                         data.chunk.metadata?.pageNumber || 1, 
                                         data.chunk.content || '',
-                                        message.id
+                                        message.id,
+                                        data.chunk.pdf_url
                                       );
                                     }}
                                     className="text-left p-2 bg-white rounded border border-indigo-200 hover:bg-indigo-50 transition-colors"
@@ -12,6 +12,7 @@ import ChatMessage from './ChatMessage';
 import SearchBar from './SearchBar';
 import TestConnectionButton from './TestConnectionButton';
 import PDFViewer from './PDFViewer';
+import { getBRDRPdfUrl } from '@/lib/utils/BRDRLanguages';
 // import { AuditTrailManager } from '@/lib/utils/AuditTrail';
 
 interface PDFDocument {
@@ -44,7 +45,7 @@ export default function ChatPanel() {
     sendAutomaticallyWhen: lastAssistantMessageIsCompleteWithToolCalls,
   });
   
-  const handleDocumentClick = (doc_id: string, pageNumber: number, chunkText: string, messageId?: string) => {
+  const handleDocumentClick = (doc_id: string, pageNumber: number, chunkText: string, messageId?: string, pdfUrl?: string) => {
     console.log('handleDocumentClick called with:', { doc_id, pageNumber, chunkText: chunkText?.substring(0, 50), messageId });
     
     if (!doc_id || doc_id === 'undefined') {
@@ -57,7 +58,8 @@ export default function ChatPanel() {
       return;
     }
     
-    const url = `https://brdr.hkma.gov.hk/eng/doc-ldg/docId/getPdf/${doc_id}/${doc_id}.pdf`;
+    // Results carry the PDF link in their document's language
+    const url = pdfUrl || getBRDRPdfUrl(doc_id);
     console.log("Generated PDF URL:", url);
     
     const newDoc = {
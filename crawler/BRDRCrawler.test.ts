@@ -0,0 +1,124 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import path from 'path';
+import { BRDRCrawler } from './BRDRCrawler';
+import { CrawlerHttpClient, CrawlerRequest, CrawlerResponse } from './CrawlerHttpClient';
+
+// Replays synthetic API responses in the recorded fixture format, see fixtures/brdr-api/README.md
+class ReplayingClient extends CrawlerHttpClient {
+  readonly requests: CrawlerRequest[] = [];
+
+  constructor() {
+    super({ fixtureMode: 'replay', fixtureDir: path.join(__dirname, 'fixtures/brdr-api'), requestsPerSecond: 1000, maxRetries: 0 });
+  }
+
+  async request<T>(request: CrawlerRequest): Promise<CrawlerResponse<T>> {
+    this.requests.push(request);
+    return super.request<T>(request);
+  }
+}
+
+const replayingCrawler = (client = new ReplayingClient()) => new BRDRCrawler(client);
+
+describe('BRDRCrawler', () => {
+  it('crawls every page of both languages', async () => {
+    const { documents, complete } = await replayingCrawler().crawlDocuments({ includePDFContent: false });
+
+    assert.equal(complete, true);
+    assert.equal(documents.filter(doc => doc.language === 'en').length, 22);
+    assert.equal(documents.filter(doc => doc.language === 'zh-Hant').length, 2);
+    assert.equal(new Set(documents.map(doc => doc.doc_id)).size, 24);
+  });
+
+  it('links the language versions of a document', async () => {
+    const { documents } = await replayingCrawler().crawlDocuments({ includePDFContent: false });
+    const english = documents.find(doc => doc.doc_id === '20250600-1-EN');
+    const chinese = documents.find(doc => doc.doc_id === '20250600-1-TC');
+
+    assert.ok(english && chinese);
+    assert.deepEqual([english.eng_doc_id, english.chi_doc_id], ['20250600-1-EN', '20250600-1-TC']);
+    assert.deepEqual([chinese.eng_doc_id, chinese.chi_doc_id], ['20250600-1-EN', '20250600-1-TC']);
+  });
+
+  it('maps the consultation fields', async () => {
+    const { documents } = await replayingCrawler().crawlDocuments({ includePDFContent: false, languages: ['eng'] });
+    const consultation = documents.find(doc => doc.doc_type_code === 'CONSULT');
+
+    assert.ok(consultation);
+    assert.equal(consultation.consult_sts_code, 'OPEN');
+    assert.equal(consultation.consult_cls_date, '2025-08-10T00:00:00');
+  });
+
+  it('reports a crawl stopped by maxPages as incomplete', async () => {
+    const { documents, complete } = await replayingCrawler().crawlDocuments({ includePDFContent: false, languages: ['eng'], maxPages: 1 });
+
+    assert.equal(complete, false);
+    assert.equal(documents.length, 20);
+  });
+
+  it('reports a crawl with a failed page as incomplete', async () => {
+    // No fixture was recorded for this search, so its first page fails
+    const { documents, complete } = await replayingCrawler().crawlDocuments({
+      includePDFContent: false,
+      languages: ['eng'],
+      criteria: { docTypeCodes: ['GL'] }
+    });
+
+    assert.equal(complete, false);
+    assert.equal(documents.length, 0);
+  });
+
+  it('sends the issue date range and sort as search criteria', async () => {
+    const client = new ReplayingClient();
+    await replayingCrawler(client).crawlDocuments({
+      includePDFContent: false,
+      languages: ['eng'],
+      criteria: { issueDateFrom: '2025-04-01', sortBy: 'ISSUE_DATE' }
+    });
+
+    const body = client.requests[0].body as { sortBy: string; docSrchCriteriaDtoList: { fieldCode: string; valueList: string[] }[] };
+    assert.equal(body.sortBy, 'ISSUE_DATE');
+    assert.deepEqual(body.docSrchCriteriaDtoList, [
+      { fieldCode: 'version', valueList: ['CURRENT'] },
+      { fieldCode: 'language', valueList: ['eng'] },
+      { fieldCode: 'issueDateGrp', valueList: ['CUSTOM'] },
+      { fieldCode: 'issueDateFrom', valueList: ['2025-04-01'] }
+    ]);
+  });
+
+  it('stops at the first page sorted by issue date that ends before issueDateFrom', async () => {
+    const client = new ReplayingClient();
+    const { documents, complete } = await replayingCrawler(client).crawlDocuments({
+      includePDFContent: false,
+      languages: ['eng'],
+      criteria: { issueDateFrom: '2025-04-01', sortBy: 'ISSUE_DATE' }
+    });
+
+    assert.equal(complete, true);
+    assert.equal(client.requests.length, 1);
+    assert.equal(documents.length, 10);
+    assert.ok(documents.every(doc => doc.issue_date! >= '2025-04-01'));
+  });
+
+  it('fetches every page when the listing is not sorted by issue date', async () => {
+    const client = new ReplayingClient();
+    const { documents, complete } = await replayingCrawler(client).crawlDocuments({
+      includePDFContent: false,
+      languages: ['eng'],
+      criteria: { issueDateFrom: '2025-04-01' }
+    });
+
+    assert.equal(complete, true);
+    assert.equal(client.requests.length, 2);
+    assert.equal(documents.length, 10);
+  });
+
+  it('keeps crawling when a PDF cannot be downloaded', async () => {
+    // No PDF fixtures either, every download fails
+    const { documents, complete } = await replayingCrawler().crawlDocuments({ languages: ['chi'] });
+
+    assert.equal(complete, true);
+    assert.equal(documents.length, 2);
+    assert.ok(documents.every(doc => doc.pdfContent === undefined));
+  });
+});
@@ -1,10 +1,37 @@
-import axios from 'axios';
+import { pdfMarkdownConverter } from './PdfMarkdownConverter';
+import { crawlerHttpClient, CrawlerHttpClient } from './CrawlerHttpClient';
+import { BRDRLanguageCode, BRDR_LANGUAGES, getBRDRPdfUrl } from '../lib/utils/BRDRLanguages';
 // import { logger, LogCategory } from '../lib/logging/Logger';
 
 // BRDR API configuration
 const API_URL = "https://brdr.hkma.gov.hk/restapi/doc-search";
-const PDF_URL_TEMPLATE = "https://brdr.hkma.gov.hk/eng/doc-ldg/docId/getPdf/{doc_id}/{doc_id}.pdf";
 const PAGE_SIZE = 20;
+const USER_AGENT = "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36";
+
+// docSrchCriteriaDtoList field codes, as the BRDR search page sends them
+const SEARCH_FIELD_CODES = {
+  version: "version",
+  language: "language",
+  issueDateGroup: "issueDateGrp",
+  issueDateFrom: "issueDateFrom",
+  issueDateTo: "issueDateTo",
+  docType: "docType",
+  topic: "topic",
+  consultationStatus: "consultSts"
+};
+
+export type BRDRVersion = 'CURRENT' | 'HISTORICAL';
+export type BRDRSortBy = 'RELEVANCE' | 'ISSUE_DATE';
+
+export interface BRDRSearchCriteria {
+  versions?: BRDRVersion[]; // current versions only by default, add HISTORICAL to backfill superseded versions
+  issueDateFrom?: string; // YYYY-MM-DD, inclusive
+  issueDateTo?: string; // YYYY-MM-DD, inclusive
+  docTypeCodes?: string[]; // docTypeCode values
+  topicCodes?: string[]; // topicCode, subtopicCode or topicSubtopicCode values
+  consultStsCodes?: string[]; // consultStsCode values of consultation papers
+  sortBy?: BRDRSortBy;
+}
 
 export interface KeywordItem {
   keywordCode?: string;
@@ -35,6 +62,19 @@ export interface RelatedDocItem {
   docNotExistsMsg?: string;
 }
 
+export interface TopicSubtopicItem {
+  codeType?: string;
+  topicCode?: string;
+  subtopicCode?: string;
+  topicSubtopicCode?: string;
+  topicSubtopicDesc?: string;
+  topicDesc: string;
+  subtopicDesc: string;
+  topicDspSeq?: number;
+  subtopicDspSeq?: number;
+  topicSubtopicSame?: boolean;
+}
+
 export interface DocLangMapItem {
   langCode?: string;
   docId?: string;
@@ -60,18 +100,7 @@ export interface BRDRDocument {
   supersessionDate?: string;
   
   // Topic and subtopic information
-  docTopicSubtopicList?: Array<{
-    codeType?: string;
-    topicCode?: string;
-    subtopicCode?: string;
-    topicSubtopicCode?: string;
-    topicSubtopicDesc?: string;
-    topicDesc: string;
-    subtopicDesc: string;
-    topicDspSeq?: number;
-    subtopicDspSeq?: number;
-    topicSubtopicSame?: boolean;
-  }>;
+  docTopicSubtopicList?: TopicSubtopicItem[];
   
   // Lists and arrays
   docKeywordList?: KeywordItem[];
@@ -134,20 +163,12 @@ export interface CrawledDocument {
   issue_date?: string;
   guideline_no?: string;
   supersession_date?: string;
+  consult_sts_code?: string; // consultation papers: status and the window comments are accepted in
+  consult_open_date?: string;
+  consult_cls_date?: string;
   
   // BRDR-specific arrays
-  doc_topic_subtopic_list?: Array<{
-    codeType?: string;
-    topicCode?: string;
-    subtopicCode?: string;
-    topicSubtopicCode?: string;
-    topicSubtopicDesc?: string;
-    topicDesc: string;
-    subtopicDesc: string;
-    topicDspSeq?: number;
-    subtopicDspSeq?: number;
-    topicSubtopicSame?: boolean;
-  }> | null;
+  doc_topic_subtopic_list?: TopicSubtopicItem[] | null;
   doc_keyword_list?: KeywordItem[] | null;
   doc_ai_type_list?: AiTypeItem[] | null;
   doc_view_list?: ViewItem[] | null;
@@ -161,46 +182,43 @@ export interface CrawledDocument {
   concepts?: string[];
   document_type?: string;
   language?: string;
+  eng_doc_id?: string; // English version of the document, itself when the document is in English
+  chi_doc_id?: string; // Traditional Chinese version
+}
+
+export interface CrawlResult {
+  documents: CrawledDocument[];
+  complete: boolean; // false when a page failed, the request budget ran out or maxPages stopped the crawl
 }
 
 export class BRDRCrawler {
-  constructor() {
-    // logger.info(LogCategory.CRAWLER, 'BRDR Crawler initialized (PDF parsing disabled)');
+  constructor(private readonly httpClient: CrawlerHttpClient = crawlerHttpClient) {
+    // logger.info(LogCategory.CRAWLER, 'BRDR Crawler initialized');
   }
 
-  async fetchBRDRPage(pageNumber: number): Promise<{ documents: BRDRDocument[], totalRecords: number }> {
+  async fetchBRDRPage(pageNumber: number, langCode: BRDRLanguageCode = 'eng', criteria: BRDRSearchCriteria = {}): Promise<{ documents: BRDRDocument[], totalRecords: number }> {
     const startTime = Date.now();
     // logger.info(LogCategory.CRAWLER, `Fetching BRDR page ${pageNumber}...`);
     
     const headers = {
       "Content-Type": "application/json; charset=UTF-8",
       "Accept": "application/json",
-      "User-Agent": "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36",
+      "User-Agent": USER_AGENT,
       "X-Requested-With": "XMLHttpRequest"
     };
 
     const payload = {
-      langCode: "eng",
+      langCode,
       pageNumber: pageNumber.toString(),
       pageSize: PAGE_SIZE.toString(),
-      sortBy: "RELEVANCE",
-      docSrchCriteriaDtoList: [
-        { fieldCode: "version", valueList: ["CURRENT"] },
-        { fieldCode: "language", valueList: ["eng"] },
-        { fieldCode: "issueDateGrp", valueList: ["ALL"] }
-      ]
+      sortBy: criteria.sortBy || "RELEVANCE",
+      docSrchCriteriaDtoList: this.buildSearchCriteria(langCode, criteria)
     };
 
     // logger.debug(LogCategory.CRAWLER, 'API request payload', payload);
 
     try {
-      const response = await axios.post(API_URL, payload, { 
-        headers,
-        httpsAgent: new (require('https').Agent)({
-          rejectUnauthorized: false
-        }),
-        timeout: 30000
-      });
+      const response = await this.httpClient.post<{ resultList?: BRDRDocument[]; totalRecordNumber?: number }>(API_URL, payload, { headers });
       
       const data = response.data;
       const duration = Date.now() - startTime;
@@ -227,6 +245,99 @@ export class BRDRCrawler {
     }
   }
 
+  /**
+   * docSrchCriteriaDtoList of a search, current versions of every document in the language by default
+   */
+  private buildSearchCriteria(langCode: BRDRLanguageCode, criteria: BRDRSearchCriteria): { fieldCode: string; valueList: string[] }[] {
+    const list = [
+      { fieldCode: SEARCH_FIELD_CODES.version, valueList: criteria.versions?.length ? criteria.versions : ["CURRENT"] },
+      { fieldCode: SEARCH_FIELD_CODES.language, valueList: [langCode] }
+    ];
+
+    if (criteria.issueDateFrom || criteria.issueDateTo) {
+      list.push({ fieldCode: SEARCH_FIELD_CODES.issueDateGroup, valueList: ["CUSTOM"] });
+      if (criteria.issueDateFrom) list.push({ fieldCode: SEARCH_FIELD_CODES.issueDateFrom, valueList: [criteria.issueDateFrom] });
+      if (criteria.issueDateTo) list.push({ fieldCode: SEARCH_FIELD_CODES.issueDateTo, valueList: [criteria.issueDateTo] });
+    } else {
+      list.push({ fieldCode: SEARCH_FIELD_CODES.issueDateGroup, valueList: ["ALL"] });
+    }
+
+    if (criteria.docTypeCodes?.length) list.push({ fieldCode: SEARCH_FIELD_CODES.docType, valueList: criteria.docTypeCodes });
+    if (criteria.topicCodes?.length) list.push({ fieldCode: SEARCH_FIELD_CODES.topic, valueList: criteria.topicCodes });
+    if (criteria.consultStsCodes?.length) list.push({ fieldCode: SEARCH_FIELD_CODES.consultationStatus, valueList: criteria.consultStsCodes });
+
+    return list;
+  }
+
+  /**
+   * Check a listed document against the criteria again, so a criterion the API ignores still narrows the crawl
+   */
+  matchesCriteria(doc: BRDRDocument, criteria: BRDRSearchCriteria): boolean {
+    const issueDate = doc.issueDate ? this.toIsoDate(doc.issueDate) : null;
+    if ((criteria.issueDateFrom || criteria.issueDateTo) && !issueDate) {
+      return false;
+    }
+    if (criteria.issueDateFrom && issueDate! < criteria.issueDateFrom) {
+      return false;
+    }
+    if (criteria.issueDateTo && issueDate! > criteria.issueDateTo) {
+      return false;
+    }
+
+    if (criteria.docTypeCodes?.length && !criteria.docTypeCodes.includes(doc.docTypeCode || '')) {
+      return false;
+    }
+    if (criteria.topicCodes?.length && !doc.docTopicSubtopicList?.some(topic =>
+      [topic.topicCode, topic.subtopicCode, topic.topicSubtopicCode].some(code => code && criteria.topicCodes!.includes(code))
+    )) {
+      return false;
+    }
+    if (criteria.consultStsCodes?.length && !criteria.consultStsCodes.includes(doc.consultStsCode || '')) {
+      return false;
+    }
+
+    return true;
+  }
+
+  /**
+   * Whether a crawl with these criteria lists every current document, so documents missing from it were withdrawn
+   */
+  coversAllDocuments(criteria: BRDRSearchCriteria = {}): boolean {
+    return !criteria.issueDateFrom && !criteria.issueDateTo && !criteria.docTypeCodes?.length
+      && !criteria.topicCodes?.length && !criteria.consultStsCodes?.length
+      && (!criteria.versions?.length || criteria.versions.includes('CURRENT'));
+  }
+
+  /**
+   * Whether a page of a search sorted by issue date ends before criteria.issueDateFrom. The page has to list
+   * its issue dates in descending order, so a sort the API ignores does not end the crawl early.
+   */
+  private endsBeforeIssueDateFrom(pageDocuments: BRDRDocument[], criteria: BRDRSearchCriteria): boolean {
+    if (criteria.sortBy !== 'ISSUE_DATE' || !criteria.issueDateFrom) {
+      return false;
+    }
+
+    const dates = pageDocuments.map(doc => doc.issueDate ? this.toIsoDate(doc.issueDate) : null);
+    if (dates.some(date => !date)) {
+      return false;
+    }
+    if (!dates.every((date, index) => index === 0 || date! <= dates[index - 1]!)) {
+      console.warn('BRDR page is not sorted by issue date, fetching every page');
+      return false;
+    }
+
+    return dates[dates.length - 1]! < criteria.issueDateFrom;
+  }
+
+  // "2024-06-12T00:00:00" or "2024-06-12" -> "2024-06-12"
+  private toIsoDate(value: string): string | null {
+    if (/^\d{4}-\d{2}-\d{2}/.test(value)) {
+      return value.slice(0, 10);
+    }
+    const date = new Date(value);
+    return isNaN(date.getTime()) ? null : date.toISOString().slice(0, 10);
+  }
+
   formatDocumentContent(doc: BRDRDocument): string {
     // logger.debug(LogCategory.CRAWLER, `Formatting document content for: ${doc.docId}`);
     
@@ -261,138 +372,225 @@ export class BRDRCrawler {
     return true;
   }
 
-  async convertPDFToMarkdown(docId: string): Promise<string> {
+  /**
+   * Download a document's PDF
+   *
+   * @throws When the PDF could not be downloaded
+   */
+  async downloadPDF(docId: string, language?: string): Promise<Uint8Array> {
+    const response = await this.httpClient.get<ArrayBuffer>(getBRDRPdfUrl(docId, language), {
+      headers: { "User-Agent": USER_AGENT, "Accept": "application/pdf" },
+      responseType: 'arraybuffer',
+      timeoutMs: 60000
+    });
+    return new Uint8Array(response.data);
+  }
+
+  /**
+   * Convert a document's PDF to `## Page N` markdown, downloading it unless it is passed in
+   *
+   * @returns The markdown, or "" when the PDF has no text layer
+   * @throws When the PDF could not be downloaded or converted
+   */
+  async convertPDFToMarkdown(docId: string, title?: string, language?: string, pdf?: Uint8Array): Promise<string> {
     // logger.debug(LogCategory.CRAWLER, `PDF conversion requested for: ${docId}`);
-    
-    // PDF parsing is disabled for now
-    // logger.debug(LogCategory.CRAWLER, `PDF parsing disabled for ${docId}`);
-    return "";
+    const data = pdf ?? await this.downloadPDF(docId, language);
+
+    const markdown = await pdfMarkdownConverter.convert(data, title);
+    if (!markdown) {
+      console.warn(`PDF of ${docId} has no text layer, nothing to convert`);
+    }
+    return markdown;
   }
 
   async crawlDocuments(options: {
     maxPages?: number;
     includePDFContent?: boolean;
     filterExisting?: boolean;
-  } = {}): Promise<CrawledDocument[]> {
+    languages?: BRDRLanguageCode[]; // every language by default, each version is a document of its own
+    criteria?: BRDRSearchCriteria; // current versions of every document by default
+  } = {}): Promise<CrawlResult> {
     // logger.info(LogCategory.CRAWLER, 'Starting BRDR document crawling', options);
     
     const {
       maxPages = Infinity,
       includePDFContent = true,
-      filterExisting = true
+      filterExisting = true,
+      languages = ['eng', 'chi'],
+      criteria = {}
     } = options;
 
-    const documents: CrawledDocument[] = [];
-    let pageNumber = 1;
-    let totalRecords = 0;
+    // Every crawl gets the full request budget, PDF downloads until the next crawl count against it too
+    this.httpClient.resetBudget();
 
-    while (pageNumber <= maxPages) {
-      // logger.info(LogCategory.CRAWLER, `Fetching page ${pageNumber}...`);
+    const documents: CrawledDocument[] = [];
+    let complete = true;
+    for (const langCode of languages) {
+      let pageNumber = 1;
+      let totalRecords = 0;
+      let lastPageReached = false;
+
+      while (pageNumber <= maxPages) {
+        // logger.info(LogCategory.CRAWLER, `Fetching page ${pageNumber}...`);
       
-      try {
-        const { documents: pageDocuments, totalRecords: total } = await this.fetchBRDRPage(pageNumber);
+        try {
+          const { documents: pageDocuments, totalRecords: total } = await this.fetchBRDRPage(pageNumber, langCode, criteria);
         
-        if (pageNumber === 1) {
-          totalRecords = total;
-          // logger.info(LogCategory.CRAWLER, `Total records to fetch: ${totalRecords}`);
-        }
-
-        if (!pageDocuments || pageDocuments.length === 0) {
-          // logger.info(LogCategory.CRAWLER, "No more documents to fetch.");
-          break;
-        }
-
-        // logger.info(LogCategory.CRAWLER, `Processing ${pageDocuments.length} documents from page ${pageNumber}`);
-
-        for (const doc of pageDocuments) {
-          if (!this.validateDocument(doc)) {
-            // logger.warn(LogCategory.CRAWLER, `Skipping invalid document ${doc.docId}`);
-            continue;
+          if (pageNumber === 1) {
+            totalRecords = total;
+            // logger.info(LogCategory.CRAWLER, `Total records to fetch: ${totalRecords}`);
           }
 
-          const content = this.formatDocumentContent(doc);
-          let pdfContent: string | undefined;
-
-          if (includePDFContent) {
-            // logger.debug(LogCategory.CRAWLER, `Converting PDF for document ${doc.docId}...`);
-            pdfContent = await this.convertPDFToMarkdown(doc.docId);
+          if (!pageDocuments || pageDocuments.length === 0) {
+            // logger.info(LogCategory.CRAWLER, "No more documents to fetch.");
+            lastPageReached = true;
+            break;
           }
 
-          const crawledDoc: CrawledDocument = {
-            doc_id: doc.docId,
-            content: content,
-            source: "BRDRAPI",
-            metadata: {
-              docId: doc.docId,
-              issueDate: doc.issueDate || "N/A",
-              type: doc.docTypeDesc || "N/A",
-              topics: doc.docTopicSubtopicList?.map(t => 
-                `${t.topicDesc || 'N/A'}: ${t.subtopicDesc || 'N/A'}`
-              ) || [],
-              originalData: doc
-            },
-            pdfContent,
+          // logger.info(LogCategory.CRAWLER, `Processing ${pageDocuments.length} documents from page ${pageNumber}`);
+
+          for (const doc of pageDocuments) {
+            if (!this.validateDocument(doc)) {
+              // logger.warn(LogCategory.CRAWLER, `Skipping invalid document ${doc.docId}`);
+              continue;
+            }
+
+            if (!this.matchesCriteria(doc, criteria)) {
+              continue;
+            }
+
+            const content = this.formatDocumentContent(doc);
+            let pdfContent: string | undefined;
+
+            if (includePDFContent) {
+              // logger.debug(LogCategory.CRAWLER, `Converting PDF for document ${doc.docId}...`);
+              // A PDF that fails is left undefined, so the ETL tries it again instead of failing the whole page
+              try {
+                pdfContent = await this.convertPDFToMarkdown(doc.docId, doc.docLongTitle, BRDR_LANGUAGES[langCode]);
+              } catch (error) {
+                console.warn(`Could not convert the PDF of ${doc.docId}:`, error instanceof Error ? error.message : error);
+              }
+            }
+
+            const crawledDoc: CrawledDocument = {
+              doc_id: doc.docId,
+              content: content,
+              source: "BRDRAPI",
+              metadata: {
+                docId: doc.docId,
+                issueDate: doc.issueDate || "N/A",
+                type: doc.docTypeDesc || "N/A",
+                topics: doc.docTopicSubtopicList?.map(t => 
+                  `${t.topicDesc || 'N/A'}: ${t.subtopicDesc || 'N/A'}`
+                ) || [],
+                originalData: doc
+              },
+              pdfContent,
             
-            // Map all BRDR-specific fields to database columns
-            doc_uuid: doc.docUuid || undefined,
-            doc_type_code: doc.docTypeCode || undefined,
-            doc_type_desc: doc.docTypeDesc || undefined,
-            version_code: doc.versionCode || undefined,
-            doc_long_title: doc.docLongTitle || undefined,
-            doc_desc: doc.docDesc || undefined,
-            issue_date: doc.issueDate || undefined,
-            guideline_no: doc.guidelineNo || undefined,
-            supersession_date: doc.supersessionDate || undefined,
+              // Map all BRDR-specific fields to database columns
+              doc_uuid: doc.docUuid || undefined,
+              doc_type_code: doc.docTypeCode || undefined,
+              doc_type_desc: doc.docTypeDesc || undefined,
+              version_code: doc.versionCode || undefined,
+              doc_long_title: doc.docLongTitle || undefined,
+              doc_desc: doc.docDesc || undefined,
+              issue_date: doc.issueDate || undefined,
+              guideline_no: doc.guidelineNo || undefined,
+              supersession_date: doc.supersessionDate || undefined,
+              consult_sts_code: doc.consultStsCode || undefined,
+              consult_open_date: doc.consultOpenDate || undefined,
+              consult_cls_date: doc.consultClsDate || undefined,
             
-            // Map BRDR-specific arrays
-            doc_topic_subtopic_list: doc.docTopicSubtopicList || null,
-            doc_keyword_list: doc.docKeywordList || null,
-            doc_ai_type_list: doc.docAiTypeList || null,
-            doc_view_list: doc.docViewList || null,
-            directly_related_doc_list: doc.directlyRelatedDocList || null,
-            version_history_doc_list: doc.versionHistoryDocList || null,
-            reference_doc_list: doc.referenceDocList || null,
-            superseded_doc_list: doc.supersededDocList || null,
+              // Map BRDR-specific arrays
+              doc_topic_subtopic_list: doc.docTopicSubtopicList || null,
+              doc_keyword_list: doc.docKeywordList || null,
+              doc_ai_type_list: doc.docAiTypeList || null,
+              doc_view_list: doc.docViewList || null,
+              directly_related_doc_list: doc.directlyRelatedDocList || null,
+              version_history_doc_list: doc.versionHistoryDocList || null,
+              reference_doc_list: doc.referenceDocList || null,
+              superseded_doc_list: doc.supersededDocList || null,
             
-            // Enhanced fields
-            topics: doc.docTopicSubtopicList?.map(t => 
-              `${t.topicDesc || 'N/A'}: ${t.subtopicDesc || 'N/A'}`
-            ) || [],
-            concepts: this.extractConcepts(doc),
-            document_type: doc.docTypeDesc || undefined,
-            language: 'en'
-          };
-
-          documents.push(crawledDoc);
+              // Enhanced fields
+              topics: doc.docTopicSubtopicList?.map(t => 
+                `${t.topicDesc || 'N/A'}: ${t.subtopicDesc || 'N/A'}`
+              ) || [],
+              concepts: this.extractConcepts(doc),
+              document_type: doc.docTypeDesc || undefined,
+              ...this.getLanguageVersions(doc, langCode)
+            };
+
+            documents.push(crawledDoc);
           
-          // Log crawl result
-          // logger.logCrawl({
-          //   timestamp: new Date().toISOString(),
-          //   level: 'AUDIT',
-          //   category: LogCategory.CRAWLER,
-          //   message: `Crawled document: ${doc.docId}`,
-          //   docId: doc.docId,
-          //   source: "BRDRAPI",
-          //   status: 'success',
-          //   contentLength: content.length,
+            // Log crawl result
+            // logger.logCrawl({
+            //   timestamp: new Date().toISOString(),
+            //   level: 'AUDIT',
+            //   category: LogCategory.CRAWLER,
+            //   message: `Crawled document: ${doc.docId}`,
+            //   docId: doc.docId,
+            //   source: "BRDRAPI",
+            //   status: 'success',
+            //   contentLength: content.length,
             
-          // });
-        }
+            // });
+          }
 
-        pageNumber++;
+          // The pages after one sorted by issue date that ends before issueDateFrom only list older documents
+          if (this.endsBeforeIssueDateFrom(pageDocuments, criteria)) {
+            lastPageReached = true;
+            break;
+          }
+
+          pageNumber++;
         
-        if ((pageNumber - 1) * PAGE_SIZE >= totalRecords) {
-          // logger.info(LogCategory.CRAWLER, "All pages fetched.");
-          break;
+          if ((pageNumber - 1) * PAGE_SIZE >= totalRecords) {
+            // logger.info(LogCategory.CRAWLER, "All pages fetched.");
+            lastPageReached = true;
+            break;
+          }
+        } catch (error) {
+          // logger.error(LogCategory.CRAWLER, `Error fetching page ${pageNumber}`, error);
+          console.error(`Failed to fetch BRDR page ${pageNumber} (${langCode}):`, error instanceof Error ? error.message : error);
+          complete = false;
+
+          // Without the first page the page count is unknown, and with the budget spent every later page fails too
+          if (pageNumber === 1 || this.httpClient.isBudgetExhausted()) {
+            break;
+          }
+          pageNumber++;
         }
-      } catch (error) {
-        // logger.error(LogCategory.CRAWLER, `Error fetching page ${pageNumber}`, error);
-        pageNumber++;
+      }
+
+      if (!lastPageReached) {
+        complete = false;
       }
     }
 
     // logger.info(LogCategory.CRAWLER, `Crawling completed. Found ${documents.length} documents.`);
-    return documents;
+    const stats = this.httpClient.getStats();
+    console.log(`Crawled ${documents.length} documents with ${stats.requests} requests (${stats.retries} retries, ${stats.notModified} not modified, ${stats.fixtures} fixtures)`);
+    if (!complete) {
+      console.warn('Crawl incomplete, some pages of the listing were not fetched');
+    }
+    return { documents, complete };
+  }
+
+  /**
+   * Language of a document crawled in `langCode` and the doc ids of its English and Chinese versions,
+   * from engDocId / chiDocId or the docLangMapDto pointing at the other version
+   */
+  private getLanguageVersions(doc: BRDRDocument, langCode: BRDRLanguageCode): Pick<CrawledDocument, 'language' | 'eng_doc_id' | 'chi_doc_id'> {
+    const versions: Partial<Record<BRDRLanguageCode, string>> = { [langCode]: doc.docId };
+    if (doc.docLangMapDto?.docId && (doc.docLangMapDto.langCode === 'eng' || doc.docLangMapDto.langCode === 'chi')) {
+      versions[doc.docLangMapDto.langCode] = doc.docLangMapDto.docId;
+    }
+
+    return {
+      language: BRDR_LANGUAGES[langCode],
+      eng_doc_id: doc.engDocId || versions.eng,
+      chi_doc_id: doc.chiDocId || versions.chi
+    };
   }
 
   private extractConcepts(doc: BRDRDocument): string[] {
@@ -416,9 +614,9 @@ export class BRDRCrawler {
     return [...new Set(concepts)];
   }
 
-  async crawlSingleDocument(docId: string, includePDFContent: boolean = true): Promise<CrawledDocument | null> {
+  async crawlSingleDocument(docId: string, includePDFContent: boolean = true, langCode: BRDRLanguageCode = 'eng'): Promise<CrawledDocument | null> {
     try {
-      const { documents } = await this.fetchBRDRPage(1);
+      const { documents } = await this.fetchBRDRPage(1, langCode);
       const doc = documents.find(d => d.docId === docId);
       
       if (!doc || !this.validateDocument(doc)) {
@@ -431,7 +629,7 @@ export class BRDRCrawler {
 
       if (includePDFContent) {
         // logger.debug(LogCategory.CRAWLER, `Converting PDF for document ${docId}...`);
-        pdfContent = await this.convertPDFToMarkdown(docId);
+        pdfContent = await this.convertPDFToMarkdown(docId, doc.docLongTitle, BRDR_LANGUAGES[langCode]);
       }
 
       return {
@@ -458,6 +656,9 @@ export class BRDRCrawler {
         issue_date: doc.issueDate || undefined,
         guideline_no: doc.guidelineNo || undefined,
         supersession_date: doc.supersessionDate || undefined,
+        consult_sts_code: doc.consultStsCode || undefined,
+        consult_open_date: doc.consultOpenDate || undefined,
+        consult_cls_date: doc.consultClsDate || undefined,
         
         doc_topic_subtopic_list: doc.docTopicSubtopicList || undefined,
         doc_keyword_list: doc.docKeywordList || undefined,
@@ -473,7 +674,7 @@ export class BRDRCrawler {
         ) || [],
         concepts: this.extractConcepts(doc),
         document_type: doc.docTypeDesc || undefined,
-        language: 'en'
+        ...this.getLanguageVersions(doc, langCode)
       };
     } catch (error) {
       // logger.error(LogCategory.CRAWLER, `Error crawling single document ${docId}`, error);
@@ -0,0 +1,341 @@
+import axios, { AxiosError } from 'axios';
+import https from 'https';
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+
+export type FixtureMode = 'off' | 'record' | 'replay';
+
+export interface CrawlerHttpConfig {
+  requestsPerSecond: number; // request starts per second, across all callers
+  maxConcurrency: number; // requests in flight at once
+  maxRequests: number; // budget of HTTP attempts per crawl, retries included
+  timeoutMs: number;
+  maxRetries: number; // retries of 429, 5xx, timeouts and network errors
+  baseDelayMs: number; // doubled on every attempt, with full jitter
+  maxDelayMs: number;
+  rejectUnauthorized: boolean; // verify the TLS certificate chain, only turn off to work around a broken chain
+  fixtureMode: FixtureMode; // record API responses to fixtureDir, or replay them without the network
+  fixtureDir: string;
+  maxConditionalEntries: number; // GET responses kept for If-None-Match / If-Modified-Since revalidation
+}
+
+export interface CrawlerRequest {
+  method: 'GET' | 'POST';
+  url: string;
+  body?: unknown;
+  headers?: Record<string, string>;
+  responseType?: 'json' | 'arraybuffer';
+  timeoutMs?: number; // overrides the configured timeout
+}
+
+export interface CrawlerResponse<T> {
+  status: number;
+  data: T;
+  notModified: boolean; // revalidated with a conditional request, data is the earlier response
+  fromFixture: boolean;
+}
+
+export interface CrawlerHttpStats {
+  requests: number;
+  retries: number;
+  notModified: number;
+  fixtures: number;
+}
+
+// Recorded response, one JSON file per request
+interface Fixture {
+  method: string;
+  url: string;
+  body: unknown;
+  status: number;
+  encoding: 'json' | 'base64';
+  data: unknown;
+}
+
+interface ConditionalEntry {
+  etag?: string;
+  lastModified?: string;
+  data: unknown;
+}
+
+const DEFAULT_CONFIG: CrawlerHttpConfig = {
+  requestsPerSecond: 2,
+  maxConcurrency: 2,
+  maxRequests: Infinity,
+  timeoutMs: 30000,
+  maxRetries: 3,
+  baseDelayMs: 1000,
+  maxDelayMs: 30000,
+  rejectUnauthorized: true,
+  fixtureMode: 'off',
+  fixtureDir: 'fixtures/brdr-api',
+  maxConditionalEntries: 100
+};
+
+// Longest Retry-After the client waits for before giving up on the request
+const MAX_RETRY_AFTER_MS = 60000;
+
+/**
+ * HTTP client shared by the crawlers: rate limited, retrying, with a request budget, conditional GETs
+ * and a fixture mode that records API responses or replays them so the crawler runs offline
+ */
+export class CrawlerHttpClient {
+  private readonly config: CrawlerHttpConfig;
+  private readonly httpsAgent: https.Agent;
+  private readonly conditionalEntries = new Map<string, ConditionalEntry>();
+  private readonly waiting: (() => void)[] = [];
+  private active = 0;
+  private nextStartAt = 0;
+  private stats: CrawlerHttpStats = { requests: 0, retries: 0, notModified: 0, fixtures: 0 };
+
+  constructor(config: Partial<CrawlerHttpConfig> = {}) {
+    this.config = { ...DEFAULT_CONFIG, ...this.readEnvConfig(), ...config };
+    this.httpsAgent = new https.Agent({ rejectUnauthorized: this.config.rejectUnauthorized });
+  }
+
+  async get<T>(url: string, options: Omit<CrawlerRequest, 'method' | 'url' | 'body'> = {}): Promise<CrawlerResponse<T>> {
+    return this.request<T>({ ...options, method: 'GET', url });
+  }
+
+  async post<T>(url: string, body: unknown, options: Omit<CrawlerRequest, 'method' | 'url' | 'body'> = {}): Promise<CrawlerResponse<T>> {
+    return this.request<T>({ ...options, method: 'POST', url, body });
+  }
+
+  async request<T>(request: CrawlerRequest): Promise<CrawlerResponse<T>> {
+    if (this.config.fixtureMode === 'replay') {
+      return this.replayFixture<T>(request);
+    }
+
+    const response = await this.withRetry(request, () => this.send<T>(request));
+
+    if (this.config.fixtureMode === 'record' && !response.notModified) {
+      await this.recordFixture(request, response);
+    }
+    return response;
+  }
+
+  /**
+   * Start a new request budget, the crawler calls this at the start of every crawl
+   */
+  resetBudget(): void {
+    this.stats = { requests: 0, retries: 0, notModified: 0, fixtures: 0 };
+  }
+
+  isBudgetExhausted(): boolean {
+    return this.stats.requests >= this.config.maxRequests;
+  }
+
+  getStats(): CrawlerHttpStats {
+    return { ...this.stats };
+  }
+
+  getConfig(): CrawlerHttpConfig {
+    return { ...this.config };
+  }
+
+  /**
+   * One HTTP attempt, inside the concurrency and rate limits. GETs are revalidated against the
+   * ETag / Last-Modified of an earlier response, a 304 returns that response's data.
+   */
+  private async send<T>(request: CrawlerRequest): Promise<CrawlerResponse<T>> {
+    if (this.isBudgetExhausted()) {
+      throw new Error(`Crawler request budget of ${this.config.maxRequests} requests exhausted`);
+    }
+
+    await this.acquireSlot();
+    try {
+      this.stats.requests++;
+
+      const conditionalKey = request.method === 'GET' ? this.requestKey(request) : null;
+      const conditional = conditionalKey ? this.conditionalEntries.get(conditionalKey) : undefined;
+      const headers: Record<string, string> = { ...request.headers };
+      if (conditional?.etag) headers['If-None-Match'] = conditional.etag;
+      if (conditional?.lastModified) headers['If-Modified-Since'] = conditional.lastModified;
+
+      const response = await axios.request({
+        method: request.method,
+        url: request.url,
+        data: request.body,
+        headers,
+        httpsAgent: this.httpsAgent,
+        responseType: request.responseType || 'json',
+        timeout: request.timeoutMs ?? this.config.timeoutMs,
+        validateStatus: status => (status >= 200 && status < 300) || (status === 304 && !!conditional)
+      });
+
+      if (response.status === 304 && conditional) {
+        this.stats.notModified++;
+        this.touchConditional(conditionalKey!, conditional);
+        return { status: 304, data: conditional.data as T, notModified: true, fromFixture: false };
+      }
+
+      const etag = response.headers['etag'];
+      const lastModified = response.headers['last-modified'];
+      if (conditionalKey && (etag || lastModified)) {
+        this.touchConditional(conditionalKey, {
+          etag: etag ? String(etag) : undefined,
+          lastModified: lastModified ? String(lastModified) : undefined,
+          data: response.data
+        });
+      }
+
+      return { status: response.status, data: response.data as T, notModified: false, fromFixture: false };
+    } finally {
+      this.releaseSlot();
+    }
+  }
+
+  /**
+   * Retry 429, 5xx, timeouts and network errors with exponential backoff and full jitter,
+   * waiting at least as long as the server's Retry-After
+   */
+  private async withRetry<T>(request: CrawlerRequest, call: () => Promise<T>): Promise<T> {
+    const { maxRetries, baseDelayMs, maxDelayMs } = this.config;
+
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return await call();
+      } catch (error) {
+        if (attempt >= maxRetries || !this.isRetryable(error) || this.isBudgetExhausted()) {
+          throw error;
+        }
+
+        const backoff = Math.random() * Math.min(maxDelayMs, baseDelayMs * 2 ** attempt);
+        const delay = Math.max(backoff, this.retryAfterMs(error));
+        const reason = error instanceof AxiosError ? (error.response?.status ?? error.code) : error;
+        this.stats.retries++;
+        console.warn(`${request.method} ${request.url} failed (${reason}, attempt ${attempt + 1} of ${maxRetries + 1}), retrying in ${Math.round(delay)}ms`);
+        await new Promise(resolve => setTimeout(resolve, delay));
+      }
+    }
+  }
+
+  private isRetryable(error: unknown): boolean {
+    if (!(error instanceof AxiosError)) {
+      return false;
+    }
+    // No response: timeout, connection reset, DNS failure
+    if (!error.response) {
+      return true;
+    }
+    return error.response.status === 429 || error.response.status >= 500;
+  }
+
+  // Retry-After is either seconds or an HTTP date
+  private retryAfterMs(error: unknown): number {
+    const value = error instanceof AxiosError ? error.response?.headers?.['retry-after'] : undefined;
+    if (!value) {
+      return 0;
+    }
+
+    const seconds = Number(value);
+    const delay = Number.isFinite(seconds) ? seconds * 1000 : new Date(String(value)).getTime() - Date.now();
+    return Number.isFinite(delay) ? Math.min(Math.max(delay, 0), MAX_RETRY_AFTER_MS) : 0;
+  }
+
+  /**
+   * Wait for a free concurrency slot, then for the next start time allowed by the rate limit
+   */
+  private async acquireSlot(): Promise<void> {
+    if (this.active >= this.config.maxConcurrency) {
+      // releaseSlot hands its slot straight to the next waiter
+      await new Promise<void>(resolve => this.waiting.push(resolve));
+    } else {
+      this.active++;
+    }
+
+    const now = Date.now();
+    const startAt = Math.max(now, this.nextStartAt);
+    this.nextStartAt = startAt + 1000 / this.config.requestsPerSecond;
+    if (startAt > now) {
+      await new Promise(resolve => setTimeout(resolve, startAt - now));
+    }
+  }
+
+  private releaseSlot(): void {
+    const next = this.waiting.shift();
+    if (next) {
+      next();
+    } else {
+      this.active--;
+    }
+  }
+
+  private touchConditional(key: string, entry: ConditionalEntry): void {
+    // Re-insert so Map order stays least recently used first
+    this.conditionalEntries.delete(key);
+    this.conditionalEntries.set(key, entry);
+
+    while (this.conditionalEntries.size > this.config.maxConditionalEntries) {
+      const oldest = this.conditionalEntries.keys().next().value as string;
+      this.conditionalEntries.delete(oldest);
+    }
+  }
+
+  private requestKey(request: CrawlerRequest): string {
+    return createHash('sha256')
+      .update(`${request.method} ${request.url}\n${JSON.stringify(request.body ?? null)}`)
+      .digest('hex');
+  }
+
+  private fixturePath(request: CrawlerRequest): string {
+    return path.resolve(this.config.fixtureDir, `${request.method.toLowerCase()}-${this.requestKey(request).slice(0, 16)}.json`);
+  }
+
+  private async recordFixture<T>(request: CrawlerRequest, response: CrawlerResponse<T>): Promise<void> {
+    const binary = request.responseType === 'arraybuffer';
+    const fixture: Fixture = {
+      method: request.method,
+      url: request.url,
+      body: request.body ?? null,
+      status: response.status,
+      encoding: binary ? 'base64' : 'json',
+      data: binary ? Buffer.from(response.data as ArrayBuffer).toString('base64') : response.data
+    };
+
+    // A fixture that cannot be written does not fail the crawl
+    try {
+      const fixturePath = this.fixturePath(request);
+      await fs.mkdir(path.dirname(fixturePath), { recursive: true });
+      await fs.writeFile(fixturePath, JSON.stringify(fixture, null, 2));
+      this.stats.fixtures++;
+    } catch (error) {
+      console.warn(`Could not record fixture for ${request.method} ${request.url}:`, error);
+    }
+  }
+
+  private async replayFixture<T>(request: CrawlerRequest): Promise<CrawlerResponse<T>> {
+    const fixturePath = this.fixturePath(request);
+
+    let fixture: Fixture;
+    try {
+      fixture = JSON.parse(await fs.readFile(fixturePath, 'utf-8'));
+    } catch {
+      throw new Error(`No recorded fixture for ${request.method} ${request.url} (${fixturePath})`);
+    }
+
+    this.stats.fixtures++;
+    const data = fixture.encoding === 'base64' ? Buffer.from(fixture.data as string, 'base64') : fixture.data;
+    return { status: fixture.status, data: data as T, notModified: false, fromFixture: true };
+  }
+
+  private readEnvConfig(): Partial<CrawlerHttpConfig> {
+    const env = process.env;
+    const config: Partial<CrawlerHttpConfig> = {};
+
+    if (env.CRAWLER_REQUESTS_PER_SECOND) config.requestsPerSecond = Number(env.CRAWLER_REQUESTS_PER_SECOND);
+    if (env.CRAWLER_MAX_CONCURRENCY) config.maxConcurrency = Number(env.CRAWLER_MAX_CONCURRENCY);
+    if (env.CRAWLER_MAX_REQUESTS) config.maxRequests = Number(env.CRAWLER_MAX_REQUESTS);
+    if (env.CRAWLER_TIMEOUT_MS) config.timeoutMs = Number(env.CRAWLER_TIMEOUT_MS);
+    if (env.CRAWLER_MAX_RETRIES) config.maxRetries = Number(env.CRAWLER_MAX_RETRIES);
+    if (env.CRAWLER_REJECT_UNAUTHORIZED) config.rejectUnauthorized = env.CRAWLER_REJECT_UNAUTHORIZED !== 'false';
+    if (env.CRAWLER_FIXTURE_MODE) config.fixtureMode = env.CRAWLER_FIXTURE_MODE as FixtureMode;
+    if (env.CRAWLER_FIXTURE_DIR) config.fixtureDir = env.CRAWLER_FIXTURE_DIR;
+
+    return config;
+  }
+}
+
+// Export singleton instance
+export const crawlerHttpClient = new CrawlerHttpClient();
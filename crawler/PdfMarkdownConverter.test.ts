@@ -0,0 +1,52 @@
+import { describe, it, before } from 'node:test';
+import assert from 'node:assert/strict';
+import { readFileSync } from 'fs';
+import path from 'path';
+import { pdfMarkdownConverter } from './PdfMarkdownConverter';
+
+// Synthetic two-page PDF, see fixtures/pdf/README.md
+const SAMPLE_PDF = path.join(__dirname, 'fixtures/pdf/sample-circular.pdf');
+
+describe('PdfMarkdownConverter', () => {
+  let markdown: string;
+  let pages: string[];
+
+  before(async () => {
+    markdown = await pdfMarkdownConverter.convert(new Uint8Array(readFileSync(SAMPLE_PDF)));
+    pages = markdown.split(/^## Page \d+$/m).slice(1).map(page => page.trim());
+  });
+
+  it('writes a header from the PDF metadata and one section per page', () => {
+    assert.ok(markdown.startsWith('# Sample circular\n\n**Author:** Synthetic fixture\n'));
+    assert.deepEqual(markdown.match(/^## Page \d+$/gm), ['## Page 1', '## Page 2']);
+  });
+
+  it('prefers the given title over the PDF metadata', async () => {
+    const titled = await pdfMarkdownConverter.convert(new Uint8Array(readFileSync(SAMPLE_PDF)), 'Capital circular');
+    assert.ok(titled.startsWith('# Capital circular\n'));
+  });
+
+  it('turns larger text into headings, largest first', () => {
+    assert.ok(pages[0].startsWith('### Capital Adequacy Requirements\n'));
+    assert.ok(pages[1].startsWith('#### Implementation\n'));
+  });
+
+  it('turns aligned columns into a table', () => {
+    assert.ok(pages[0].includes([
+      '| Ratio | Minimum |',
+      '| --- | --- |',
+      '| CET1 capital ratio | 4.5% |',
+      '| Tier 1 capital ratio | 6% |',
+      '| Total capital ratio | 8% |'
+    ].join('\n')));
+  });
+
+  it('drops the page numbers in the footer', () => {
+    assert.ok(pages[0].endsWith('| Total capital ratio | 8% |'));
+    assert.ok(pages[1].endsWith('The requirements take effect on 1 January 2025.'));
+  });
+
+  it('decodes text in CJK fonts with predefined CMaps', () => {
+    assert.ok(pages[1].includes('香港金融管理局資本充足要求'));
+  });
+});
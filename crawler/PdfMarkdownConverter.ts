@@ -0,0 +1,271 @@
+import path from 'path';
+
+// Fields of the pdf.js text items the converter reads
+interface PdfTextItem {
+  str: string;
+  transform: number[]; // [scaleX, skewY, skewX, scaleY, x, y]
+  width: number;
+}
+
+// Document information dictionary fields used in the markdown header
+interface PdfInfo {
+  Title?: string;
+  Author?: string;
+  Subject?: string;
+  Creator?: string;
+  CreationDate?: string;
+}
+
+interface PdfCell {
+  x: number;
+  endX: number;
+  text: string;
+}
+
+interface PdfLine {
+  y: number;
+  fontSize: number;
+  cells: PdfCell[]; // text separated by wide gaps, the columns of table rows
+}
+
+// Gap between two items, in multiples of the font size, that starts a new table cell
+const CELL_GAP = 2;
+// Lines this much larger than the body text are headings
+const HEADING_SIZE_RATIO = 1.15;
+const MAX_HEADING_LENGTH = 120;
+// Rows with the same number of cells, header included, before lines are read as a table
+const MIN_TABLE_ROWS = 3;
+// "## Page N" is level 2, page headings start below it
+const HEADING_LEVELS = ['###', '####', '#####'];
+const PAGE_NUMBER_LINE = /^(page\s+)?\d+(\s+(of|\/)\s+\d+)?$/i;
+// Character maps and standard fonts shipped with pdf.js, without them text in CJK fonts cannot be decoded
+const PDFJS_DIR = path.dirname(require.resolve('pdfjs-dist/package.json'));
+const CMAP_DIR = `${path.join(PDFJS_DIR, 'cmaps')}${path.sep}`;
+const STANDARD_FONT_DIR = `${path.join(PDFJS_DIR, 'standard_fonts')}${path.sep}`;
+
+/**
+ * Converts PDF text to the markdown the chunkers read: a header with the title and PDF metadata, then
+ * one `## Page N` section per page. Larger text becomes headings, rows of aligned columns become tables.
+ */
+export class PdfMarkdownConverter {
+  /**
+   * @returns The markdown, or "" when the PDF has no text layer (scanned documents)
+   */
+  async convert(data: Uint8Array, title?: string): Promise<string> {
+    const { getDocument } = await import('pdfjs-dist/legacy/build/pdf.mjs');
+    const pdf = await getDocument({
+      data,
+      isEvalSupported: false,
+      useSystemFonts: false,
+      cMapUrl: CMAP_DIR,
+      cMapPacked: true,
+      standardFontDataUrl: STANDARD_FONT_DIR
+    }).promise;
+
+    try {
+      const metadata = await pdf.getMetadata();
+      const info = metadata.info as PdfInfo;
+      const pages: PdfLine[][] = [];
+
+      for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+        const page = await pdf.getPage(pageNumber);
+        const content = await page.getTextContent();
+        const items: PdfTextItem[] = content.items.flatMap(item => 'str' in item ? [item] : []);
+        pages.push(this.stripPageNumbers(this.toLines(items)));
+        page.cleanup();
+      }
+
+      const allLines = pages.flat();
+      if (allLines.length === 0) {
+        return '';
+      }
+
+      const bodySize = this.bodyFontSize(allLines);
+      const headingLevels = this.headingLevels(allLines, bodySize);
+
+      const header = [
+        `# ${title || info.Title || 'Untitled document'}`,
+        '',
+        info.Author ? `**Author:** ${info.Author}` : '',
+        info.Subject ? `**Subject:** ${info.Subject}` : '',
+        info.Creator ? `**Creator:** ${info.Creator}` : '',
+        info.CreationDate ? `**Creation Date:** ${this.formatPdfDate(info.CreationDate)}` : ''
+      ].filter((line, index) => index < 2 || line).join('\n');
+
+      const body = pages.map((lines, index) =>
+        `## Page ${index + 1}\n\n${this.renderPage(lines, bodySize, headingLevels)}`
+      );
+
+      return `${header}\n\n${body.join('\n\n')}\n`;
+    } finally {
+      await pdf.destroy();
+    }
+  }
+
+  /**
+   * Group text items into lines by baseline, top to bottom, and split each line into cells at wide gaps
+   */
+  private toLines(items: PdfTextItem[]): PdfLine[] {
+    const positioned = items
+      .filter(item => item.str.trim())
+      .map(item => ({
+        text: item.str,
+        x: item.transform[4],
+        y: item.transform[5],
+        width: item.width,
+        fontSize: Math.hypot(item.transform[2], item.transform[3]) || 1
+      }))
+      .sort((a, b) => b.y - a.y || a.x - b.x);
+
+    const lines: { y: number; fontSize: number; items: typeof positioned }[] = [];
+    for (const item of positioned) {
+      const line = lines.find(candidate => Math.abs(candidate.y - item.y) < Math.min(candidate.fontSize, item.fontSize) * 0.5);
+      if (line) {
+        line.items.push(item);
+        line.fontSize = Math.max(line.fontSize, item.fontSize);
+      } else {
+        lines.push({ y: item.y, fontSize: item.fontSize, items: [item] });
+      }
+    }
+
+    return lines
+      .sort((a, b) => b.y - a.y)
+      .map(line => {
+        const cells: PdfCell[] = [];
+        for (const item of line.items.sort((a, b) => a.x - b.x)) {
+          const cell = cells[cells.length - 1];
+          const gap = cell ? item.x - cell.endX : Infinity;
+
+          if (gap > line.fontSize * CELL_GAP) {
+            cells.push({ x: item.x, endX: item.x + item.width, text: item.text.trim() });
+          } else {
+            const separator = gap > line.fontSize * 0.15 && !/\s$/.test(cell.text) ? ' ' : '';
+            cell.text = `${cell.text}${separator}${item.text}`.replace(/\s+/g, ' ');
+            cell.endX = Math.max(cell.endX, item.x + item.width);
+          }
+        }
+
+        return { y: line.y, fontSize: line.fontSize, cells: cells.map(cell => ({ ...cell, text: cell.text.trim() })) };
+      });
+  }
+
+  /**
+   * Drop page numbers printed in the page header or footer
+   */
+  private stripPageNumbers(lines: PdfLine[]): PdfLine[] {
+    return lines.filter((line, index) =>
+      (index > 0 && index < lines.length - 1) || !PAGE_NUMBER_LINE.test(this.lineText(line))
+    );
+  }
+
+  /**
+   * Font size of most of the text, weighted by characters
+   */
+  private bodyFontSize(lines: PdfLine[]): number {
+    const characters = new Map<number, number>();
+    for (const line of lines) {
+      const size = Math.round(line.fontSize);
+      characters.set(size, (characters.get(size) || 0) + this.lineText(line).length);
+    }
+    return Array.from(characters.entries()).sort((a, b) => b[1] - a[1])[0][0];
+  }
+
+  /**
+   * Markdown heading prefix for each font size larger than the body text, largest first
+   */
+  private headingLevels(lines: PdfLine[], bodySize: number): Map<number, string> {
+    const sizes = [...new Set(lines
+      .filter(line => this.isHeadingCandidate(line, bodySize))
+      .map(line => Math.round(line.fontSize)))]
+      .sort((a, b) => b - a);
+
+    return new Map(sizes.map((size, index) => [size, HEADING_LEVELS[Math.min(index, HEADING_LEVELS.length - 1)]]));
+  }
+
+  private isHeadingCandidate(line: PdfLine, bodySize: number): boolean {
+    return line.fontSize >= bodySize * HEADING_SIZE_RATIO && line.cells.length === 1 && line.cells[0].text.length <= MAX_HEADING_LENGTH;
+  }
+
+  /**
+   * Render a page: headings, tables from consecutive lines with the same number of cells, and paragraphs
+   * split at vertical gaps. Lines stay on their own line so numbered section titles are still recognised.
+   */
+  private renderPage(lines: PdfLine[], bodySize: number, headingLevels: Map<number, string>): string {
+    const blocks: string[] = [];
+    let paragraph: string[] = [];
+    let previous: PdfLine | null = null;
+
+    const flushParagraph = () => {
+      if (paragraph.length > 0) {
+        blocks.push(paragraph.join('\n'));
+        paragraph = [];
+      }
+    };
+
+    for (let index = 0; index < lines.length; index++) {
+      const line = lines[index];
+
+      if (this.isHeadingCandidate(line, bodySize)) {
+        flushParagraph();
+        blocks.push(`${headingLevels.get(Math.round(line.fontSize))} ${line.cells[0].text}`);
+        previous = line;
+        continue;
+      }
+
+      const tableRows = this.tableRowsAt(lines, index, bodySize);
+      if (tableRows.length > 0) {
+        flushParagraph();
+        blocks.push(this.renderTable(tableRows));
+        index += tableRows.length - 1;
+        previous = tableRows[tableRows.length - 1];
+        continue;
+      }
+
+      if (previous && previous.y - line.y > line.fontSize * 1.8) {
+        flushParagraph();
+      }
+      paragraph.push(this.lineText(line));
+      previous = line;
+    }
+
+    flushParagraph();
+    return blocks.join('\n\n');
+  }
+
+  /**
+   * Lines from `start` forming a table: MIN_TABLE_ROWS or more rows with the same number (2 or more) of cells
+   */
+  private tableRowsAt(lines: PdfLine[], start: number, bodySize: number): PdfLine[] {
+    const columns = lines[start].cells.length;
+    if (columns < 2) {
+      return [];
+    }
+
+    let end = start + 1;
+    while (end < lines.length && lines[end].cells.length === columns && !this.isHeadingCandidate(lines[end], bodySize)) {
+      end++;
+    }
+
+    return end - start >= MIN_TABLE_ROWS ? lines.slice(start, end) : [];
+  }
+
+  private renderTable(rows: PdfLine[]): string {
+    const renderRow = (line: PdfLine) => `| ${line.cells.map(cell => cell.text.replace(/\|/g, '\\|')).join(' | ')} |`;
+    const separator = `| ${rows[0].cells.map(() => '---').join(' | ')} |`;
+
+    return [renderRow(rows[0]), separator, ...rows.slice(1).map(renderRow)].join('\n');
+  }
+
+  private lineText(line: PdfLine): string {
+    return line.cells.map(cell => cell.text).join(' ');
+  }
+
+  // "D:20240612093000+08'00'" -> "2024-06-12"
+  private formatPdfDate(value: string): string {
+    const match = value.match(/^D?:?(\d{4})(\d{2})?(\d{2})?/);
+    return match ? [match[1], match[2] || '01', match[3] || '01'].join('-') : value;
+  }
+}
+
+// Export singleton instance
+export const pdfMarkdownConverter = new PdfMarkdownConverter();
@@ -12,6 +12,8 @@ CREATE TABLE IF NOT EXISTS brdr_documents (
     content TEXT NOT NULL,
     source VARCHAR NOT NULL,
     embedding VECTOR(384),
+    embedding_model VARCHAR, -- model the embedding column was written with
+    embedding_dimension INTEGER,
     metadata JSONB,
     created_at TIMESTAMPTZ(6) DEFAULT NOW(),
     doc_uuid VARCHAR,
@@ -23,12 +25,17 @@ CREATE TABLE IF NOT EXISTS brdr_documents (
     issue_date TIMESTAMPTZ(6),
     guideline_no VARCHAR,
     supersession_date TIMESTAMPTZ(6),
+    consult_sts_code VARCHAR, -- consultation papers: BRDR consultation status and comment window
+    consult_open_date TIMESTAMPTZ(6),
+    consult_cls_date TIMESTAMPTZ(6),
     keywords TEXT[] DEFAULT '{}',
     topics TEXT[] DEFAULT '{}',
     concepts TEXT[] DEFAULT '{}',
     summary TEXT,
     document_type VARCHAR,
-    language VARCHAR DEFAULT 'en',
+    language VARCHAR DEFAULT 'en', -- 'en' or 'zh-Hant'
+    eng_doc_id VARCHAR, -- doc ids of the English and Traditional Chinese versions of the document
+    chi_doc_id VARCHAR,
     doc_topic_subtopic_list JSONB,
     doc_keyword_list JSONB,
     doc_ai_type_list JSONB,
@@ -36,7 +43,10 @@ CREATE TABLE IF NOT EXISTS brdr_documents (
     directly_related_doc_list JSONB,
     version_history_doc_list JSONB,
     reference_doc_list JSONB,
-    superseded_doc_list JSONB
+    superseded_doc_list JSONB,
+    content_hash VARCHAR, -- hash of the ingested content and chunking settings, for incremental ETL runs
+    metadata_hash VARCHAR, -- hash of the BRDR API metadata
+    source_hash VARCHAR -- hash of the bytes of the PDF a document was converted from and the settings, to skip converting it again
 );
 
 -- Table: brdr_documents_data
@@ -47,28 +57,168 @@ CREATE TABLE IF NOT EXISTS brdr_documents_data (
     chunk_id INTEGER NOT NULL,
     content TEXT NOT NULL,
     embedding VECTOR(384),
+    embedding_model VARCHAR, -- model the embedding column was written with
+    embedding_dimension INTEGER,
     metadata JSONB,
     created_at TIMESTAMPTZ(6) DEFAULT NOW(),
     chunk_type VARCHAR,
     keywords TEXT[] DEFAULT '{}',
     related_chunks TEXT[] DEFAULT '{}',
+    chunk_level INTEGER,
+    parent_chunk_id INTEGER, -- chunk_id of the enclosing chunk in the same document
+    child_chunk_ids INTEGER[] DEFAULT '{}',
+    content_hash VARCHAR, -- hash of the embedded text
+    embedding_missing BOOLEAN DEFAULT FALSE, -- embedding failed, left for the repair job to backfill
+    embedding_error TEXT,
     CONSTRAINT document_data_doc_id_chunk_id_key UNIQUE (doc_id, chunk_id),
     CONSTRAINT document_data_document_id_fkey FOREIGN KEY (document_id) 
         REFERENCES brdr_documents (id) ON DELETE CASCADE ON UPDATE NO ACTION
 );
 
+-- Table: brdr_document_relations
+-- Edges between BRDR documents, taken from the related / reference / version history / superseded
+-- lists of the BRDR API. Targets are not required to be ingested, so only the source has a foreign key.
+CREATE TABLE IF NOT EXISTS brdr_document_relations (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    source_doc_id VARCHAR NOT NULL,
+    target_doc_id VARCHAR NOT NULL,
+    relation_type VARCHAR NOT NULL,
+    target_title VARCHAR,
+    target_issue_date TIMESTAMPTZ(6),
+    created_at TIMESTAMPTZ(6) DEFAULT NOW(),
+    CONSTRAINT document_relations_source_target_type_key UNIQUE (source_doc_id, target_doc_id, relation_type),
+    CONSTRAINT document_relations_relation_type_check
+        CHECK (relation_type IN ('directly_related', 'reference', 'version_history', 'superseded')),
+    CONSTRAINT document_relations_source_doc_id_fkey FOREIGN KEY (source_doc_id)
+        REFERENCES brdr_documents (doc_id) ON DELETE CASCADE ON UPDATE NO ACTION
+);
+
+-- Table: brdr_embedding_indexes
+-- Every embedding model chunks are indexed with. 'inline' is the embedding column of brdr_documents(_data),
+-- 'side' indexes live in brdr_chunk_embeddings. Search uses the single 'active' index.
+CREATE TABLE IF NOT EXISTS brdr_embedding_indexes (
+    embedding_model VARCHAR PRIMARY KEY,
+    provider VARCHAR NOT NULL,
+    embedding_dimension INTEGER NOT NULL,
+    storage VARCHAR NOT NULL DEFAULT 'side',
+    status VARCHAR NOT NULL DEFAULT 'building',
+    created_at TIMESTAMPTZ(6) DEFAULT NOW(),
+    activated_at TIMESTAMPTZ(6),
+    CONSTRAINT embedding_indexes_storage_check CHECK (storage IN ('inline', 'side')),
+    CONSTRAINT embedding_indexes_status_check CHECK (status IN ('building', 'ready', 'active', 'retired'))
+);
+
+-- Table: brdr_chunk_embeddings
+-- Chunk embeddings of side indexes, built next to the inline ones so a new model can be evaluated
+-- before search is switched over. The column has no fixed dimension, every row is tagged instead.
+CREATE TABLE IF NOT EXISTS brdr_chunk_embeddings (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    chunk_row_id UUID NOT NULL, -- brdr_documents_data.id
+    doc_id VARCHAR NOT NULL,
+    embedding_model VARCHAR NOT NULL,
+    embedding_dimension INTEGER NOT NULL,
+    embedding VECTOR NOT NULL,
+    content_hash VARCHAR, -- content_hash of the chunk when embedded, a changed chunk is embedded again
+    created_at TIMESTAMPTZ(6) DEFAULT NOW(),
+    CONSTRAINT chunk_embeddings_chunk_row_id_model_key UNIQUE (chunk_row_id, embedding_model),
+    CONSTRAINT chunk_embeddings_chunk_row_id_fkey FOREIGN KEY (chunk_row_id)
+        REFERENCES brdr_documents_data (id) ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT chunk_embeddings_embedding_model_fkey FOREIGN KEY (embedding_model)
+        REFERENCES brdr_embedding_indexes (embedding_model) ON DELETE CASCADE ON UPDATE NO ACTION
+);
+
+-- Table: brdr_embedding_cache
+-- Embeddings of chunk texts keyed by a hash of model, dimension and text, so identical text is never
+-- embedded twice (re-ingesting, rebuilding an index, the same boilerplate in many documents)
+CREATE TABLE IF NOT EXISTS brdr_embedding_cache (
+    content_hash VARCHAR NOT NULL,
+    embedding_model VARCHAR NOT NULL,
+    embedding_dimension INTEGER NOT NULL,
+    embedding VECTOR NOT NULL,
+    created_at TIMESTAMPTZ(6) DEFAULT NOW(),
+    PRIMARY KEY (content_hash, embedding_model)
+);
+
+-- Table: brdr_etl_runs
+-- One row per ETL run, so an interrupted run can be resumed with its original options
+CREATE TABLE IF NOT EXISTS brdr_etl_runs (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    status VARCHAR NOT NULL DEFAULT 'running',
+    options JSONB DEFAULT '{}',
+    crawl_complete BOOLEAN DEFAULT FALSE,
+    error TEXT,
+    started_at TIMESTAMPTZ(6) DEFAULT NOW(),
+    finished_at TIMESTAMPTZ(6),
+    CONSTRAINT etl_runs_status_check CHECK (status IN ('running', 'completed', 'failed'))
+);
+
+-- Table: brdr_etl_run_documents
+-- Checkpoint of every document of a run. The crawled API document is kept so a resume does not crawl again.
+CREATE TABLE IF NOT EXISTS brdr_etl_run_documents (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    run_id UUID NOT NULL,
+    doc_id VARCHAR NOT NULL,
+    status VARCHAR NOT NULL DEFAULT 'pending',
+    error TEXT,
+    api_document JSONB,
+    updated_at TIMESTAMPTZ(6) DEFAULT NOW(),
+    CONSTRAINT etl_run_documents_run_id_doc_id_key UNIQUE (run_id, doc_id),
+    CONSTRAINT etl_run_documents_status_check
+        CHECK (status IN ('pending', 'crawled', 'chunked', 'embedded', 'stored', 'failed')),
+    CONSTRAINT etl_run_documents_run_id_fkey FOREIGN KEY (run_id)
+        REFERENCES brdr_etl_runs (id) ON DELETE CASCADE ON UPDATE NO ACTION
+);
+
+-- Columns added after the tables were first released. CREATE TABLE IF NOT EXISTS skips a table that
+-- already exists, so databases set up earlier get the new columns here, before the indexes that use them.
+ALTER TABLE brdr_documents_data ADD COLUMN IF NOT EXISTS chunk_level INTEGER;
+ALTER TABLE brdr_documents_data ADD COLUMN IF NOT EXISTS parent_chunk_id INTEGER;
+ALTER TABLE brdr_documents_data ADD COLUMN IF NOT EXISTS child_chunk_ids INTEGER[] DEFAULT '{}';
+ALTER TABLE brdr_documents ADD COLUMN IF NOT EXISTS content_hash VARCHAR;
+ALTER TABLE brdr_documents ADD COLUMN IF NOT EXISTS metadata_hash VARCHAR;
+ALTER TABLE brdr_documents_data ADD COLUMN IF NOT EXISTS content_hash VARCHAR;
+ALTER TABLE brdr_documents_data ADD COLUMN IF NOT EXISTS embedding_missing BOOLEAN DEFAULT FALSE;
+ALTER TABLE brdr_documents_data ADD COLUMN IF NOT EXISTS embedding_error TEXT;
+ALTER TABLE brdr_documents ADD COLUMN IF NOT EXISTS embedding_model VARCHAR;
+ALTER TABLE brdr_documents ADD COLUMN IF NOT EXISTS embedding_dimension INTEGER;
+ALTER TABLE brdr_documents_data ADD COLUMN IF NOT EXISTS embedding_model VARCHAR;
+ALTER TABLE brdr_documents_data ADD COLUMN IF NOT EXISTS embedding_dimension INTEGER;
+ALTER TABLE brdr_documents ADD COLUMN IF NOT EXISTS eng_doc_id VARCHAR;
+ALTER TABLE brdr_documents ADD COLUMN IF NOT EXISTS chi_doc_id VARCHAR;
+ALTER TABLE brdr_documents ADD COLUMN IF NOT EXISTS consult_sts_code VARCHAR;
+ALTER TABLE brdr_documents ADD COLUMN IF NOT EXISTS consult_open_date TIMESTAMPTZ(6);
+ALTER TABLE brdr_documents ADD COLUMN IF NOT EXISTS consult_cls_date TIMESTAMPTZ(6);
+ALTER TABLE brdr_documents ADD COLUMN IF NOT EXISTS source_hash VARCHAR;
+ALTER TABLE brdr_etl_runs ADD COLUMN IF NOT EXISTS crawl_complete BOOLEAN DEFAULT FALSE;
+
 -- Basic Indexes for brdr_documents
 CREATE INDEX IF NOT EXISTS idx_brdr_documents_doc_id ON brdr_documents (doc_id);
 CREATE INDEX IF NOT EXISTS idx_brdr_documents_document_type ON brdr_documents (document_type);
 CREATE INDEX IF NOT EXISTS idx_brdr_documents_language ON brdr_documents (language);
+CREATE INDEX IF NOT EXISTS idx_brdr_documents_eng_doc_id ON brdr_documents (eng_doc_id);
+CREATE INDEX IF NOT EXISTS idx_brdr_documents_chi_doc_id ON brdr_documents (chi_doc_id);
 CREATE INDEX IF NOT EXISTS idx_brdr_documents_doc_type_code ON brdr_documents (doc_type_code);
 CREATE INDEX IF NOT EXISTS idx_brdr_documents_issue_date ON brdr_documents (issue_date);
 CREATE INDEX IF NOT EXISTS idx_brdr_documents_version_code ON brdr_documents (version_code);
+CREATE INDEX IF NOT EXISTS idx_brdr_documents_consult_cls_date ON brdr_documents (consult_cls_date);
 
 -- Basic Indexes for brdr_documents_data
 CREATE INDEX IF NOT EXISTS idx_brdr_documents_data_chunk_type ON brdr_documents_data (chunk_type);
 CREATE INDEX IF NOT EXISTS idx_brdr_documents_data_doc_id ON brdr_documents_data (doc_id);
 CREATE INDEX IF NOT EXISTS idx_brdr_documents_data_document_id ON brdr_documents_data (document_id);
+CREATE INDEX IF NOT EXISTS idx_brdr_documents_data_embedding_missing ON brdr_documents_data (embedding_missing) WHERE embedding_missing;
+
+-- Basic Indexes for brdr_document_relations
+CREATE INDEX IF NOT EXISTS idx_brdr_document_relations_source ON brdr_document_relations (source_doc_id);
+CREATE INDEX IF NOT EXISTS idx_brdr_document_relations_target ON brdr_document_relations (target_doc_id);
+CREATE INDEX IF NOT EXISTS idx_brdr_document_relations_type ON brdr_document_relations (relation_type);
+
+-- Basic Indexes for brdr_embedding_indexes / brdr_chunk_embeddings
+CREATE UNIQUE INDEX IF NOT EXISTS idx_brdr_embedding_indexes_single_active ON brdr_embedding_indexes (status) WHERE status = 'active';
+CREATE INDEX IF NOT EXISTS idx_brdr_chunk_embeddings_model ON brdr_chunk_embeddings (embedding_model);
+
+-- Basic Indexes for brdr_etl_run_documents
+CREATE INDEX IF NOT EXISTS idx_brdr_etl_run_documents_run_status ON brdr_etl_run_documents (run_id, status);
 
 -- Vector indexes (will be created after data is inserted)
 -- CREATE INDEX IF NOT EXISTS idx_brdr_documents_embedding ON brdr_documents USING hnsw (embedding vector_l2_ops);
@@ -46,17 +46,78 @@ $$ LANGUAGE plpgsql SECURITY DEFINER;
 
 
 
+-- Drop earlier signatures of the search functions so the versions below do not end up as overloads
+DROP FUNCTION IF EXISTS full_text_search(TEXT, INT, TEXT, INT, INT, INT, INT, INT, INT);
+DROP FUNCTION IF EXISTS vector_search(VECTOR, FLOAT, INT, TEXT, INT, INT, INT, INT, INT, INT);
+DROP FUNCTION IF EXISTS keyword_search(TEXT, INT, TEXT, INT, INT, INT, INT, INT, INT);
+DROP FUNCTION IF EXISTS hybrid_search(TEXT, VECTOR, FLOAT8, FLOAT8, INT, INT, INT, INT, INT, INT, INT);
+DROP FUNCTION IF EXISTS full_text_search(TEXT, INT, TEXT, DATE, DATE);
+DROP FUNCTION IF EXISTS vector_search(VECTOR, FLOAT, INT, TEXT, DATE, DATE);
+DROP FUNCTION IF EXISTS keyword_search(TEXT, INT, TEXT, DATE, DATE);
+DROP FUNCTION IF EXISTS hybrid_search(TEXT, VECTOR, FLOAT8, FLOAT8, INT, TEXT, DATE, DATE);
+DROP FUNCTION IF EXISTS vector_search(VECTOR, FLOAT, INT, TEXT, DATE, DATE, JSONB);
+DROP FUNCTION IF EXISTS hybrid_search(TEXT, VECTOR, FLOAT8, FLOAT8, INT, TEXT, DATE, DATE, JSONB);
+DROP FUNCTION IF EXISTS get_chunk_context(UUID[], INT);
+DROP FUNCTION IF EXISTS find_consultations(TEXT, INT, INT, JSONB, DATE);
+
+-- Structured metadata filter shared by the search functions. Every key is optional:
+--   doc_types          TEXT[]  doc_type_code or doc_type_desc, e.g. ["Circular"]
+--   topics             TEXT[]  partial match on "Topic: Subtopic", e.g. ["Capital Adequacy"]
+--   guideline_nos      TEXT[]  exact guideline number, e.g. ["CA-G-1"]
+--   version_codes      TEXT[]  exact version_code
+--   doc_views          TEXT[]  viewCode or partial viewDesc from doc_view_list
+--   exclude_superseded BOOLEAN drop documents whose supersession_date has passed
+--   doc_ids            TEXT[]  restrict the search to these documents
+--   chunk_types        TEXT[]  chunk rows of these types only, e.g. ["sentence", "paragraph"]
+--                              (checked by the search functions, the chunk is not visible here)
+--   languages          TEXT[]  documents in these languages only, "en" or "zh-Hant"
+CREATE OR REPLACE FUNCTION brdr_document_matches_filters(bd brdr_documents, filters JSONB)
+RETURNS BOOLEAN AS $$
+    SELECT
+        (NOT (filters ? 'doc_types') OR EXISTS (
+            SELECT 1 FROM jsonb_array_elements_text(filters->'doc_types') q
+            WHERE upper(bd.doc_type_code) = upper(q) OR bd.doc_type_desc ILIKE '%' || q || '%'
+        ))
+        AND (NOT (filters ? 'topics') OR EXISTS (
+            SELECT 1 FROM unnest(bd.topics) t, jsonb_array_elements_text(filters->'topics') q
+            WHERE t ILIKE '%' || q || '%'
+        ))
+        AND (NOT (filters ? 'guideline_nos') OR EXISTS (
+            SELECT 1 FROM jsonb_array_elements_text(filters->'guideline_nos') q
+            WHERE upper(bd.guideline_no) = upper(q)
+        ))
+        AND (NOT (filters ? 'version_codes') OR EXISTS (
+            SELECT 1 FROM jsonb_array_elements_text(filters->'version_codes') q
+            WHERE upper(bd.version_code) = upper(q)
+        ))
+        AND (NOT (filters ? 'doc_views') OR EXISTS (
+            SELECT 1
+            FROM jsonb_array_elements(
+                CASE WHEN jsonb_typeof(bd.doc_view_list) = 'array' THEN bd.doc_view_list ELSE '[]'::JSONB END
+            ) v, jsonb_array_elements_text(filters->'doc_views') q
+            WHERE upper(v->>'viewCode') = upper(q) OR v->>'viewDesc' ILIKE '%' || q || '%'
+        ))
+        AND (NOT COALESCE((filters->>'exclude_superseded')::BOOLEAN, FALSE)
+            OR bd.supersession_date IS NULL
+            OR bd.supersession_date > NOW())
+        AND (NOT (filters ? 'doc_ids') OR bd.doc_id IN (
+            SELECT jsonb_array_elements_text(filters->'doc_ids')
+        ))
+        AND (NOT (filters ? 'languages') OR COALESCE(bd.language, 'en') IN (
+            SELECT jsonb_array_elements_text(filters->'languages')
+        ));
+$$ LANGUAGE sql STABLE;
+
 -- Function for full text search with date filtering
+-- search_table selects chunk-level ('brdr_documents_data') or document-level ('brdr_documents') rows.
+-- Dates filter on the document issue_date, falling back to the row creation date.
 CREATE OR REPLACE FUNCTION full_text_search(
     query_text TEXT,
     match_count INT DEFAULT 10,
     search_table TEXT DEFAULT 'brdr_documents_data',
-    start_year INT DEFAULT 1989,
-    start_month INT DEFAULT 1,
-    start_day INT DEFAULT 1,
-    end_year INT DEFAULT EXTRACT(YEAR FROM CURRENT_DATE)::INT,
-    end_month INT DEFAULT EXTRACT(MONTH FROM CURRENT_DATE)::INT,
-    end_day INT DEFAULT EXTRACT(DAY FROM CURRENT_DATE)::INT
+    date_from DATE DEFAULT '1989-01-01',
+    date_to DATE DEFAULT CURRENT_DATE,
+    filters JSONB DEFAULT '{}'::JSONB
 )
 RETURNS TABLE(
     id UUID,
@@ -66,32 +127,49 @@ RETURNS TABLE(
     metadata JSONB
 ) AS $$
 BEGIN
-    RETURN QUERY
-    SELECT 
-        bdd.id,
-        bdd.doc_id,
-        bdd.content,
-        0.0::FLOAT AS similarity,
-        bdd.metadata
-    FROM brdr_documents_data bdd
-    WHERE bdd.content ILIKE '%' || query_text || '%'
-    
-    LIMIT match_count;
+    IF search_table = 'brdr_documents' THEN
+        RETURN QUERY
+        SELECT 
+            bd.id,
+            bd.doc_id,
+            bd.content,
+            0.0::FLOAT AS similarity,
+            bd.metadata
+        FROM brdr_documents bd
+        WHERE bd.content ILIKE '%' || query_text || '%'
+        AND COALESCE(bd.issue_date, bd.created_at)::DATE BETWEEN date_from AND date_to
+        AND brdr_document_matches_filters(bd, filters)
+        LIMIT match_count;
+    ELSE
+        RETURN QUERY
+        SELECT 
+            bdd.id,
+            bdd.doc_id,
+            bdd.content,
+            0.0::FLOAT AS similarity,
+            bdd.metadata
+        FROM brdr_documents_data bdd
+        JOIN brdr_documents bd ON bd.id = bdd.document_id
+        WHERE bdd.content ILIKE '%' || query_text || '%'
+        AND COALESCE(bd.issue_date, bdd.created_at)::DATE BETWEEN date_from AND date_to
+        AND brdr_document_matches_filters(bd, filters)
+        AND (NOT (filters ? 'chunk_types') OR bdd.chunk_type IN (SELECT jsonb_array_elements_text(filters->'chunk_types')))
+        LIMIT match_count;
+    END IF;
 END;
 $$ LANGUAGE plpgsql SECURITY DEFINER;
 
 -- Function for vector similarity search with date range filtering
+-- index_model selects a side index from brdr_chunk_embeddings; NULL searches the inline embedding columns
 CREATE OR REPLACE FUNCTION vector_search(
-    query_embedding VECTOR(1536),
+    query_embedding VECTOR,
     similarity_threshold FLOAT DEFAULT 0.3,
     match_count INT DEFAULT 10,
     search_table TEXT DEFAULT 'brdr_documents_data',
-    start_year INT DEFAULT 1989,
-    start_month INT DEFAULT 1,
-    start_day INT DEFAULT 1,
-    end_year INT DEFAULT EXTRACT(YEAR FROM CURRENT_DATE)::INT,
-    end_month INT DEFAULT EXTRACT(MONTH FROM CURRENT_DATE)::INT,
-    end_day INT DEFAULT EXTRACT(DAY FROM CURRENT_DATE)::INT
+    date_from DATE DEFAULT '1989-01-01',
+    date_to DATE DEFAULT CURRENT_DATE,
+    filters JSONB DEFAULT '{}'::JSONB,
+    index_model TEXT DEFAULT NULL
 )
 RETURNS TABLE(
     id UUID,
@@ -101,20 +179,44 @@ RETURNS TABLE(
     metadata JSONB
 ) AS $$
 BEGIN
-    RETURN QUERY
-    SELECT 
-        bdd.id,
-        bdd.doc_id,
-        bdd.content,
-        1 - (bdd.embedding <-> query_embedding) AS similarity,
-        bdd.metadata
-    FROM brdr_documents_data bdd
-    WHERE bdd.embedding IS NOT NULL
-   
-    AND 1 - (bdd.embedding <-> query_embedding) > similarity_threshold
-    ORDER BY bdd.embedding <-> query_embedding
-    LIMIT match_count;
-    
+    IF index_model IS NOT NULL THEN
+        RETURN QUERY
+        SELECT * FROM side_index_vector_search(
+            query_embedding, index_model, similarity_threshold, match_count, search_table, date_from, date_to, filters
+        );
+    ELSIF search_table = 'brdr_documents' THEN
+        RETURN QUERY
+        SELECT 
+            bd.id,
+            bd.doc_id,
+            bd.content,
+            1 - (bd.embedding <-> query_embedding) AS similarity,
+            bd.metadata
+        FROM brdr_documents bd
+        WHERE bd.embedding IS NOT NULL
+        AND COALESCE(bd.issue_date, bd.created_at)::DATE BETWEEN date_from AND date_to
+        AND brdr_document_matches_filters(bd, filters)
+        AND 1 - (bd.embedding <-> query_embedding) > similarity_threshold
+        ORDER BY bd.embedding <-> query_embedding
+        LIMIT match_count;
+    ELSE
+        RETURN QUERY
+        SELECT 
+            bdd.id,
+            bdd.doc_id,
+            bdd.content,
+            1 - (bdd.embedding <-> query_embedding) AS similarity,
+            bdd.metadata
+        FROM brdr_documents_data bdd
+        JOIN brdr_documents bd ON bd.id = bdd.document_id
+        WHERE bdd.embedding IS NOT NULL
+        AND COALESCE(bd.issue_date, bdd.created_at)::DATE BETWEEN date_from AND date_to
+        AND brdr_document_matches_filters(bd, filters)
+        AND (NOT (filters ? 'chunk_types') OR bdd.chunk_type IN (SELECT jsonb_array_elements_text(filters->'chunk_types')))
+        AND 1 - (bdd.embedding <-> query_embedding) > similarity_threshold
+        ORDER BY bdd.embedding <-> query_embedding
+        LIMIT match_count;
+    END IF;
 END;
 $$ LANGUAGE plpgsql SECURITY DEFINER;
 
@@ -123,12 +225,9 @@ CREATE OR REPLACE FUNCTION keyword_search(
     query_text TEXT,
     match_count INT DEFAULT 10,
     search_table TEXT DEFAULT 'brdr_documents_data',
-    start_year INT DEFAULT 1989,
-    start_month INT DEFAULT 1,
-    start_day INT DEFAULT 1,
-    end_year INT DEFAULT EXTRACT(YEAR FROM CURRENT_DATE)::INT,
-    end_month INT DEFAULT EXTRACT(MONTH FROM CURRENT_DATE)::INT,
-    end_day INT DEFAULT EXTRACT(DAY FROM CURRENT_DATE)::INT
+    date_from DATE DEFAULT '1989-01-01',
+    date_to DATE DEFAULT CURRENT_DATE,
+    filters JSONB DEFAULT '{}'::JSONB
 )
 RETURNS TABLE(
     id UUID,
@@ -141,7 +240,6 @@ RETURNS TABLE(
 ) AS $$
 DECLARE
     search_keywords TEXT[];
-    search_word TEXT;
 BEGIN
     -- Extract keywords from the query
     -- Split the query into words
@@ -149,19 +247,39 @@ BEGIN
         SELECT DISTINCT lower(word)
         FROM regexp_split_to_table(query_text, '\s+') AS word
         WHERE length(word) > 3 -- Only consider words longer than 3 characters
+        OR word ~ '[\u4e00-\u9fff]' -- Chinese is not split into words, keep it whole and match its keywords inside it
     );
     
-    -- For documents table with date filtering
     RETURN QUERY
-    WITH keyword_matches AS (
+    WITH candidates AS (
+        -- Rows of the requested table within the date range
+        SELECT bd.id, bd.doc_id, bd.content, bd.keywords, bd.metadata
+        FROM brdr_documents bd
+        WHERE search_table = 'brdr_documents'
+        AND bd.keywords IS NOT NULL
+        AND COALESCE(bd.issue_date, bd.created_at)::DATE BETWEEN date_from AND date_to
+        AND brdr_document_matches_filters(bd, filters)
+
+        UNION ALL
+
+        SELECT bdd.id, bdd.doc_id, bdd.content, bdd.keywords, bdd.metadata
+        FROM brdr_documents_data bdd
+        JOIN brdr_documents bd ON bd.id = bdd.document_id
+        WHERE search_table <> 'brdr_documents'
+        AND bdd.keywords IS NOT NULL
+        AND COALESCE(bd.issue_date, bdd.created_at)::DATE BETWEEN date_from AND date_to
+        AND brdr_document_matches_filters(bd, filters)
+        AND (NOT (filters ? 'chunk_types') OR bdd.chunk_type IN (SELECT jsonb_array_elements_text(filters->'chunk_types')))
+    ),
+    keyword_matches AS (
         SELECT 
-            bdd.id,
-            bdd.doc_id,
-            bdd.content,
-            bdd.keywords,
+            c.id,
+            c.doc_id,
+            c.content,
+            c.keywords,
             ARRAY(
                 SELECT k
-                FROM unnest(bdd.keywords) k
+                FROM unnest(c.keywords) k
                 WHERE EXISTS (
                     SELECT 1 
                     FROM unnest(search_keywords) q
@@ -179,17 +297,15 @@ BEGIN
                         ELSE 0.5::FLOAT8
                     END
                 ), 0.0::FLOAT8)::FLOAT8
-                FROM unnest(bdd.keywords) k
+                FROM unnest(c.keywords) k
                 WHERE EXISTS (
                     SELECT 1 
                     FROM unnest(search_keywords) q
                     WHERE k ILIKE '%' || q || '%' OR q ILIKE '%' || k || '%'
                 )
             ) AS match_score,
-            bdd.metadata
-        FROM brdr_documents_data bdd
-        WHERE bdd.keywords IS NOT NULL
-       
+            c.metadata
+        FROM candidates c
     )
     SELECT 
         km.id,
@@ -209,16 +325,15 @@ $$ LANGUAGE plpgsql SECURITY DEFINER;
 -- Function to combine keyword search with vector search for hybrid results
 CREATE OR REPLACE FUNCTION hybrid_search(
     query_text TEXT,
-    query_embedding VECTOR(1536),
+    query_embedding VECTOR,
     keyword_weight FLOAT8 DEFAULT 0.4,
     vector_weight FLOAT8 DEFAULT 0.6,
     match_count INT DEFAULT 10,
-    start_year INT DEFAULT 1989,
-    start_month INT DEFAULT 1,
-    start_day INT DEFAULT 1,
-    end_year INT DEFAULT EXTRACT(YEAR FROM CURRENT_DATE)::INT,
-    end_month INT DEFAULT EXTRACT(MONTH FROM CURRENT_DATE)::INT,
-    end_day INT DEFAULT EXTRACT(DAY FROM CURRENT_DATE)::INT
+    search_table TEXT DEFAULT 'brdr_documents_data',
+    date_from DATE DEFAULT '1989-01-01',
+    date_to DATE DEFAULT CURRENT_DATE,
+    filters JSONB DEFAULT '{}'::JSONB,
+    index_model TEXT DEFAULT NULL
 )
 RETURNS TABLE(
     id UUID,
@@ -236,44 +351,39 @@ BEGIN
     WITH 
     keyword_results AS (
         SELECT 
-            id,
-            doc_id,
-            content,
-            keywords,
-            matched_keywords,
-            match_score AS keyword_score,
-            metadata
+            ks.id,
+            ks.doc_id,
+            ks.content,
+            ks.keywords,
+            ks.matched_keywords,
+            ks.match_score AS keyword_score,
+            ks.metadata
         FROM keyword_search(
             query_text, 
             match_count * 2,
-            'brdr_documents_data',
-            start_year,
-            start_month,
-            start_day,
-            end_year,
-            end_month,
-            end_day
-        )
+            search_table,
+            date_from,
+            date_to,
+            filters
+        ) ks
     ),
     vector_results AS (
         SELECT 
-            id,
-            doc_id,
-            content,
-            similarity AS vector_score,
-            metadata
+            vs.id,
+            vs.doc_id,
+            vs.content,
+            vs.similarity AS vector_score,
+            vs.metadata
         FROM vector_search(
             query_embedding, 
             0.3, 
             match_count * 2, 
-            'brdr_documents_data',
-            start_year,
-            start_month,
-            start_day,
-            end_year,
-            end_month,
-            end_day
-        )
+            search_table,
+            date_from,
+            date_to,
+            filters,
+            index_model
+        ) vs
     ),
     combined_results AS (
         -- Results from keyword search
@@ -314,11 +424,441 @@ BEGIN
 END;
 $$ LANGUAGE plpgsql SECURITY DEFINER;
 
+-- Vector search over a side index. Chunks are matched with their brdr_chunk_embeddings row for the
+-- model; a document is matched with the embedding of its first chunk, as the ETL does for the inline index.
+-- Side embeddings have no fixed dimension, so this is a scan of the model's rows rather than an HNSW lookup.
+CREATE OR REPLACE FUNCTION side_index_vector_search(
+    query_embedding VECTOR,
+    index_model TEXT,
+    similarity_threshold FLOAT DEFAULT 0.3,
+    match_count INT DEFAULT 10,
+    search_table TEXT DEFAULT 'brdr_documents_data',
+    date_from DATE DEFAULT '1989-01-01',
+    date_to DATE DEFAULT CURRENT_DATE,
+    filters JSONB DEFAULT '{}'::JSONB
+)
+RETURNS TABLE(
+    id UUID,
+    doc_id VARCHAR,
+    content TEXT,
+    similarity FLOAT,
+    metadata JSONB
+) AS $$
+BEGIN
+    IF search_table = 'brdr_documents' THEN
+        RETURN QUERY
+        SELECT
+            bd.id,
+            bd.doc_id,
+            bd.content,
+            1 - (bce.embedding <-> query_embedding) AS similarity,
+            bd.metadata
+        FROM brdr_documents bd
+        JOIN brdr_documents_data bdd ON bdd.document_id = bd.id AND bdd.chunk_id = 1
+        JOIN brdr_chunk_embeddings bce ON bce.chunk_row_id = bdd.id AND bce.embedding_model = index_model
+        WHERE COALESCE(bd.issue_date, bd.created_at)::DATE BETWEEN date_from AND date_to
+        AND brdr_document_matches_filters(bd, filters)
+        AND 1 - (bce.embedding <-> query_embedding) > similarity_threshold
+        ORDER BY bce.embedding <-> query_embedding
+        LIMIT match_count;
+    ELSE
+        RETURN QUERY
+        SELECT
+            bdd.id,
+            bdd.doc_id,
+            bdd.content,
+            1 - (bce.embedding <-> query_embedding) AS similarity,
+            bdd.metadata
+        FROM brdr_chunk_embeddings bce
+        JOIN brdr_documents_data bdd ON bdd.id = bce.chunk_row_id
+        JOIN brdr_documents bd ON bd.id = bdd.document_id
+        WHERE bce.embedding_model = index_model
+        AND COALESCE(bd.issue_date, bdd.created_at)::DATE BETWEEN date_from AND date_to
+        AND brdr_document_matches_filters(bd, filters)
+        AND (NOT (filters ? 'chunk_types') OR bdd.chunk_type IN (SELECT jsonb_array_elements_text(filters->'chunk_types')))
+        AND 1 - (bce.embedding <-> query_embedding) > similarity_threshold
+        ORDER BY bce.embedding <-> query_embedding
+        LIMIT match_count;
+    END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Function listing the chunks a side index still has to embed: chunks without a row for the model,
+-- or whose content changed since they were embedded. exclude_ids skips chunks that failed in this build.
+CREATE OR REPLACE FUNCTION get_chunks_missing_index_embedding(
+    index_model TEXT,
+    max_count INT DEFAULT 100,
+    exclude_ids UUID[] DEFAULT '{}'
+)
+RETURNS TABLE(
+    id UUID,
+    doc_id VARCHAR,
+    chunk_id INT,
+    content TEXT,
+    metadata JSONB,
+    content_hash VARCHAR
+) AS $$
+    SELECT bdd.id, bdd.doc_id, bdd.chunk_id, bdd.content, bdd.metadata, bdd.content_hash
+    FROM brdr_documents_data bdd
+    LEFT JOIN brdr_chunk_embeddings bce ON bce.chunk_row_id = bdd.id AND bce.embedding_model = index_model
+    WHERE (bce.id IS NULL OR bce.content_hash IS DISTINCT FROM bdd.content_hash)
+    AND NOT (bdd.id = ANY (exclude_ids))
+    ORDER BY bdd.doc_id, bdd.chunk_id
+    LIMIT max_count;
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- Function switching search to another embedding index. Both updates run in one transaction,
+-- so there is always exactly one active index.
+CREATE OR REPLACE FUNCTION activate_embedding_index(index_model TEXT)
+RETURNS BOOLEAN AS $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM brdr_embedding_indexes
+        WHERE embedding_model = index_model
+        AND status <> 'building'
+    ) THEN
+        RAISE EXCEPTION 'Embedding index % does not exist or is still building', index_model;
+    END IF;
+
+    UPDATE brdr_embedding_indexes
+    SET status = 'retired'
+    WHERE status = 'active'
+    AND embedding_model <> index_model;
+
+    UPDATE brdr_embedding_indexes
+    SET status = 'active', activated_at = NOW()
+    WHERE embedding_model = index_model;
+
+    RETURN TRUE;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Function to walk the document relation graph from a starting document.
+-- Follows outgoing edges and, when follow_incoming is set, incoming edges too; each document is
+-- returned once at the shallowest depth it was reached. The walk is breadth-first and a document is
+-- only expanded the first time it is reached, so the work grows with the edges, not with the paths.
+CREATE OR REPLACE FUNCTION traverse_document_relations(
+    start_doc_id TEXT,
+    relation_types TEXT[] DEFAULT NULL,
+    max_depth INT DEFAULT 3,
+    follow_incoming BOOLEAN DEFAULT TRUE
+)
+RETURNS TABLE(
+    doc_id VARCHAR,
+    depth INT,
+    relation_type VARCHAR,
+    direction TEXT,
+    via_doc_id VARCHAR
+) AS $$
+#variable_conflict use_column
+DECLARE
+    visited VARCHAR[] := ARRAY[start_doc_id::VARCHAR];
+    frontier VARCHAR[] := ARRAY[start_doc_id::VARCHAR];
+    next_frontier VARCHAR[];
+    edge RECORD;
+BEGIN
+    FOR current_depth IN 1..max_depth LOOP
+        EXIT WHEN cardinality(frontier) = 0;
+        next_frontier := ARRAY[]::VARCHAR[];
+
+        -- Documents first reached at this depth, each through one edge from the previous level
+        FOR edge IN
+            SELECT DISTINCT ON (e.reached_doc_id) e.reached_doc_id, e.edge_type, e.edge_direction, e.from_doc_id
+            FROM (
+                SELECT r.target_doc_id AS reached_doc_id, r.relation_type AS edge_type,
+                    'outgoing'::TEXT AS edge_direction, r.source_doc_id AS from_doc_id
+                FROM brdr_document_relations r
+                WHERE r.source_doc_id = ANY (frontier)
+                AND (relation_types IS NULL OR r.relation_type = ANY (relation_types))
+
+                UNION ALL
+
+                SELECT r.source_doc_id, r.relation_type, 'incoming'::TEXT, r.target_doc_id
+                FROM brdr_document_relations r
+                WHERE follow_incoming
+                AND r.target_doc_id = ANY (frontier)
+                AND (relation_types IS NULL OR r.relation_type = ANY (relation_types))
+            ) e
+            WHERE NOT e.reached_doc_id = ANY (visited)
+            ORDER BY e.reached_doc_id, e.edge_direction DESC
+        LOOP
+            doc_id := edge.reached_doc_id;
+            depth := current_depth;
+            relation_type := edge.edge_type;
+            direction := edge.edge_direction;
+            via_doc_id := edge.from_doc_id;
+            RETURN NEXT;
+
+            next_frontier := next_frontier || edge.reached_doc_id;
+        END LOOP;
+
+        visited := visited || next_frontier;
+        frontier := next_frontier;
+    END LOOP;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+-- Function to expand search hits with their neighbouring chunks.
+-- Returns every hit plus the chunks up to context_window positions before and after it among the
+-- chunks of the same document and chunk_type, so a section hit gets the neighbouring sections and
+-- not the sentences stored next to it; a chunk near several hits is returned once, relative to the closest hit.
+CREATE OR REPLACE FUNCTION get_chunk_context(
+    hit_ids UUID[],
+    context_window INT DEFAULT 1
+)
+RETURNS TABLE(
+    id UUID,
+    doc_id VARCHAR,
+    document_id UUID,
+    chunk_id INT,
+    content TEXT,
+    metadata JSONB,
+    chunk_type VARCHAR,
+    keywords TEXT[],
+    is_original_match BOOLEAN,
+    original_chunk_id INT,
+    position_offset INT,
+    chunk_position INT -- position among the document's chunks of the same chunk_type
+) AS $$
+    WITH positioned AS (
+        SELECT
+            bdd.*,
+            ROW_NUMBER() OVER (PARTITION BY bdd.doc_id, bdd.chunk_type ORDER BY bdd.chunk_id)::INT AS chunk_position
+        FROM brdr_documents_data bdd
+        WHERE bdd.doc_id IN (SELECT h.doc_id FROM brdr_documents_data h WHERE h.id = ANY (hit_ids))
+    )
+    SELECT context.id, context.doc_id, context.document_id, context.chunk_id, context.content, context.metadata,
+        context.chunk_type, context.keywords, context.is_original_match, context.original_chunk_id,
+        context.position_offset, context.chunk_position
+    FROM (
+        SELECT DISTINCT ON (p.id)
+            p.id,
+            p.doc_id,
+            p.document_id,
+            p.chunk_id,
+            p.content,
+            p.metadata,
+            p.chunk_type,
+            p.keywords,
+            p.id = ANY (hit_ids) AS is_original_match,
+            hit.chunk_id AS original_chunk_id,
+            p.chunk_position - hit.chunk_position AS position_offset,
+            p.chunk_position
+        FROM positioned hit
+        JOIN positioned p
+            ON p.doc_id = hit.doc_id
+            AND p.chunk_type IS NOT DISTINCT FROM hit.chunk_type
+            AND p.chunk_position BETWEEN hit.chunk_position - context_window AND hit.chunk_position + context_window
+        WHERE hit.id = ANY (hit_ids)
+        ORDER BY p.id, ABS(p.chunk_position - hit.chunk_position)
+    ) context
+    ORDER BY context.doc_id, context.chunk_type, context.chunk_position;
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- Function for small-to-big retrieval: for every hit, walk up the parent_chunk_id links to the
+-- nearest ancestor of target_chunk_type. Hits without such an ancestor are returned themselves.
+CREATE OR REPLACE FUNCTION get_enclosing_chunks(
+    hit_ids UUID[],
+    target_chunk_type TEXT DEFAULT 'section'
+)
+RETURNS TABLE(
+    hit_id UUID,
+    id UUID,
+    doc_id VARCHAR,
+    chunk_id INT,
+    content TEXT,
+    metadata JSONB,
+    chunk_type VARCHAR
+) AS $$
+    WITH RECURSIVE ancestors(hit_id, id, doc_id, chunk_id, parent_chunk_id, content, metadata, chunk_type, depth) AS (
+        SELECT bdd.id, bdd.id, bdd.doc_id, bdd.chunk_id, bdd.parent_chunk_id, bdd.content, bdd.metadata, bdd.chunk_type, 0
+        FROM brdr_documents_data bdd
+        WHERE bdd.id = ANY (hit_ids)
+
+        UNION ALL
+
+        SELECT a.hit_id, parent.id, parent.doc_id, parent.chunk_id, parent.parent_chunk_id, parent.content, parent.metadata, parent.chunk_type, a.depth + 1
+        FROM ancestors a
+        JOIN brdr_documents_data parent
+            ON parent.doc_id = a.doc_id
+            AND parent.chunk_id = a.parent_chunk_id
+        WHERE a.chunk_type IS DISTINCT FROM target_chunk_type
+    )
+    SELECT DISTINCT ON (ancestors.hit_id)
+        ancestors.hit_id,
+        ancestors.id,
+        ancestors.doc_id,
+        ancestors.chunk_id,
+        ancestors.content,
+        ancestors.metadata,
+        ancestors.chunk_type
+    FROM ancestors
+    ORDER BY ancestors.hit_id, (ancestors.chunk_type = target_chunk_type) DESC, ancestors.depth;
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- Function to look up rows of the structured tables stored with table chunks.
+-- Every row of metadata->'table'->'rows' is scored by the share of query terms found in it
+-- (header names included), so "risk weight claims on banks" finds the exact row.
+CREATE OR REPLACE FUNCTION search_table_rows(
+    query_text TEXT,
+    match_count INT DEFAULT 10,
+    filters JSONB DEFAULT '{}'::JSONB
+)
+RETURNS TABLE(
+    id UUID,
+    doc_id VARCHAR,
+    chunk_id INT,
+    page_number INT,
+    headers JSONB,
+    table_row JSONB,
+    match_score FLOAT
+) AS $$
+    WITH terms AS (
+        SELECT array_agg(DISTINCT term) AS terms
+        FROM regexp_split_to_table(lower(query_text), '[^a-z0-9.%-]+') term
+        WHERE length(term) > 1
+    ),
+    scored AS (
+        SELECT
+            bdd.id,
+            bdd.doc_id,
+            bdd.chunk_id,
+            (bdd.metadata->>'pageNumber')::INT AS page_number,
+            bdd.metadata->'table'->'headers' AS headers,
+            r.table_row,
+            (
+                -- strpos, not LIKE: terms keep % and _, which LIKE would read as wildcards
+                SELECT COUNT(*) FROM unnest(terms.terms) term
+                WHERE strpos(lower(r.table_row::TEXT), term) > 0
+            )::FLOAT / GREATEST(cardinality(terms.terms), 1) AS match_score
+        FROM brdr_documents_data bdd
+        JOIN brdr_documents bd ON bd.id = bdd.document_id
+        CROSS JOIN terms
+        CROSS JOIN LATERAL jsonb_array_elements(bdd.metadata->'table'->'rows') r(table_row)
+        WHERE bdd.chunk_type = 'table'
+        AND brdr_document_matches_filters(bd, filters)
+    )
+    SELECT *
+    FROM scored
+    WHERE scored.match_score > 0
+    ORDER BY scored.match_score DESC
+    LIMIT match_count;
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- Function listing consultation papers by where they stand on as_of (today in Hong Kong by default).
+-- A consult_sts_code of OPEN, CLOSED or UPCOMING is taken as it is; without one (or with another code)
+-- the dates decide: upcoming before consult_open_date, open until the end of consult_cls_date, closed
+-- after it, and unknown when BRDR gives neither date. status_filter is 'upcoming', 'open', 'closed', 'unknown' or 'all';
+-- closing_within_days keeps consultations closing in the next N days. The English and Chinese versions of
+-- a paper are listed once, in preferred_language when that version exists; the filters (except languages)
+-- match either version. Open and upcoming ones come soonest closing first, closed ones latest first.
+CREATE OR REPLACE FUNCTION find_consultations(
+    status_filter TEXT DEFAULT 'open',
+    closing_within_days INT DEFAULT NULL,
+    match_count INT DEFAULT 20,
+    filters JSONB DEFAULT '{}'::JSONB,
+    as_of DATE DEFAULT NULL,
+    preferred_language TEXT DEFAULT 'en'
+)
+RETURNS TABLE(
+    id UUID,
+    doc_id VARCHAR,
+    doc_long_title VARCHAR,
+    doc_type_desc VARCHAR,
+    topics TEXT[],
+    language VARCHAR,
+    consult_sts_code VARCHAR,
+    consult_open_date TIMESTAMPTZ,
+    consult_cls_date TIMESTAMPTZ,
+    consultation_status TEXT,
+    days_until_close INT
+) AS $$
+    WITH today AS (
+        SELECT COALESCE(as_of, (NOW() AT TIME ZONE 'Asia/Hong_Kong')::DATE) AS day
+    ),
+    versions AS (
+        SELECT
+            bd.*,
+            COALESCE(bd.eng_doc_id, bd.chi_doc_id, bd.doc_id) AS version_group,
+            brdr_document_matches_filters(bd, filters - 'languages') AS matches_filters
+        FROM brdr_documents bd
+        WHERE (bd.consult_sts_code IS NOT NULL OR bd.consult_open_date IS NOT NULL OR bd.consult_cls_date IS NOT NULL)
+    ),
+    representatives AS (
+        SELECT DISTINCT ON (v.version_group) v.*
+        FROM versions v
+        WHERE v.version_group IN (SELECT version_group FROM versions WHERE matches_filters)
+        ORDER BY v.version_group, (COALESCE(v.language, 'en') = preferred_language) DESC, v.doc_id
+    ),
+    consultations AS (
+        SELECT
+            r.id,
+            r.doc_id,
+            r.doc_long_title,
+            r.doc_type_desc,
+            r.topics,
+            COALESCE(r.language, 'en')::VARCHAR AS language,
+            r.consult_sts_code,
+            r.consult_open_date,
+            r.consult_cls_date,
+            CASE
+                WHEN UPPER(TRIM(r.consult_sts_code)) = 'OPEN' THEN 'open'
+                WHEN UPPER(TRIM(r.consult_sts_code)) = 'CLOSED' THEN 'closed'
+                WHEN UPPER(TRIM(r.consult_sts_code)) = 'UPCOMING' THEN 'upcoming'
+                WHEN r.consult_cls_date IS NULL AND r.consult_open_date IS NULL THEN 'unknown'
+                WHEN (r.consult_open_date AT TIME ZONE 'Asia/Hong_Kong')::DATE > today.day THEN 'upcoming'
+                WHEN (r.consult_cls_date AT TIME ZONE 'Asia/Hong_Kong')::DATE < today.day THEN 'closed'
+                ELSE 'open'
+            END AS consultation_status,
+            (r.consult_cls_date AT TIME ZONE 'Asia/Hong_Kong')::DATE - today.day AS days_until_close
+        FROM representatives r
+        CROSS JOIN today
+    )
+    SELECT *
+    FROM consultations c
+    WHERE (status_filter = 'all' OR c.consultation_status = status_filter)
+    AND (closing_within_days IS NULL OR c.days_until_close BETWEEN 0 AND closing_within_days)
+    ORDER BY
+        (c.consultation_status = 'closed'),
+        CASE WHEN c.consultation_status = 'closed' THEN -c.days_until_close ELSE c.days_until_close END NULLS LAST
+    LIMIT match_count;
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- Function returning the dimension of every embedding column, so the app can check its embedding
+-- model against the schema at startup (pgvector stores the dimension as the column's type modifier)
+CREATE OR REPLACE FUNCTION get_embedding_dimensions()
+RETURNS TABLE(
+    table_name TEXT,
+    dimension INT
+) AS $$
+    SELECT c.relname::TEXT, a.atttypmod
+    FROM pg_attribute a
+    JOIN pg_class c ON c.oid = a.attrelid
+    JOIN pg_namespace n ON n.oid = c.relnamespace
+    WHERE n.nspname = 'public'
+    AND c.relname IN ('brdr_documents', 'brdr_documents_data')
+    AND a.attname = 'embedding'
+    AND NOT a.attisdropped;
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
 -- Grant execute permissions
 GRANT EXECUTE ON FUNCTION keyword_search TO anon, authenticated;
 GRANT EXECUTE ON FUNCTION hybrid_search TO anon, authenticated;
 GRANT EXECUTE ON FUNCTION vector_search TO anon, authenticated;
 GRANT EXECUTE ON FUNCTION full_text_search TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION brdr_document_matches_filters TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION traverse_document_relations TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION get_chunk_context TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION get_enclosing_chunks TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION search_table_rows TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION find_consultations TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION get_embedding_dimensions TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION side_index_vector_search TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION get_chunks_missing_index_embedding TO anon, authenticated;
+
+-- Activating an index switches search for every user, only the service role (the ETL) may do it
+REVOKE EXECUTE ON FUNCTION activate_embedding_index FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION activate_embedding_index TO service_role;
 
 -- Create vector indexes (only after you have data)
 -- Uncomment these lines after running ETL pipeline:
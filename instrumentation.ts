@@ -0,0 +1,15 @@
+/**
+ * Runs once when the Next.js server starts: check that the configured embedding model
+ * produces vectors the size of the database embedding columns
+ */
+export async function register() {
+  if (process.env.NEXT_RUNTIME !== 'nodejs') return;
+
+  const { embeddingService } = await import('./lib/embeddings/EmbeddingService');
+  const { supabaseService } = await import('./lib/database/SupabaseService');
+
+  const columnDimensions = await supabaseService.getEmbeddingDimensions();
+  if (!embeddingService.validateDimension(columnDimensions)) {
+    console.error('Vector search will fail until EMBEDDING_PROVIDER / EMBEDDING_MODEL / EMBEDDING_DIMENSION match the schema');
+  }
+}
@@ -0,0 +1,106 @@
+import { supabaseService, SearchTable, DocumentRelationType } from '../database/SupabaseService';
+import { findRelevantContent, FindRelevantContentOptions, prepareQuery } from './findRelevantContent';
+import { supersessionPolicy } from '../retrieval/Supersession';
+import { languageVersionResolver } from '../retrieval/LanguageVersions';
+
+export interface GraphExpansionOptions extends FindRelevantContentOptions {
+  relationTypes?: DocumentRelationType[]; // which edges to follow, all of them by default
+  maxLinkedDocuments?: number; // cap on the documents pulled in through relations
+  linkedChunkLimit?: number; // chunks returned from the linked documents
+  linkedSimilarityThreshold?: number;
+}
+
+export interface RelatedVia {
+  doc_id: string; // the retrieved document the link was followed from
+  relation_type: DocumentRelationType;
+  direction: 'outgoing' | 'incoming';
+}
+
+/**
+ * Retrieve chunks for the query, then follow one hop of document relations from the
+ * retrieved documents and pull in the best-matching chunks of the linked documents.
+ * Referenced circulars rarely score well against the user's wording on their own.
+ * Linked chunks get the same date range, filters and supersession handling as the initial results.
+ *
+ * @returns The initial results followed by the linked-document chunks (marked with `related_via`), or null
+ */
+export const findGraphExpandedContent = async (
+  userQuery: string,
+  limit: number,
+  searchTable: SearchTable,
+  similarityThreshold: number,
+  options: GraphExpansionOptions = {}
+) => {
+  const {
+    relationTypes,
+    maxLinkedDocuments = 10,
+    linkedChunkLimit = limit,
+    linkedSimilarityThreshold = similarityThreshold,
+    ...retrievalOptions
+  } = options;
+
+  try {
+    // Step 1: Initial retrieval, the query is embedded once for both searches
+    const preparedQuery = retrievalOptions.preparedQuery ?? await prepareQuery(userQuery, retrievalOptions.embeddingIndex);
+    const seedResults = await findRelevantContent(userQuery, limit, searchTable, similarityThreshold, { ...retrievalOptions, preparedQuery });
+    if (!seedResults || seedResults.length === 0) {
+      return seedResults;
+    }
+
+    // Step 2: Follow one hop of relations from every retrieved document
+    const seedDocIds = [...new Set(seedResults.map(result => result.doc_id))];
+    const linked = new Map<string, RelatedVia>();
+
+    for (const docId of seedDocIds) {
+      const relations = await supabaseService.getDocumentRelations(docId, { relationTypes });
+
+      for (const relation of relations) {
+        const outgoing = relation.source_doc_id === docId;
+        const linkedDocId = outgoing ? relation.target_doc_id : relation.source_doc_id;
+
+        if (seedDocIds.includes(linkedDocId) || linked.has(linkedDocId)) continue;
+
+        linked.set(linkedDocId, {
+          doc_id: docId,
+          relation_type: relation.relation_type,
+          direction: outgoing ? 'outgoing' : 'incoming'
+        });
+      }
+    }
+
+    console.log(`Graph expansion found ${linked.size} linked documents`);
+
+    if (linked.size === 0) {
+      return seedResults;
+    }
+
+    // Step 3: Best-matching chunks from the linked documents
+    const linkedDocIds = Array.from(linked.keys()).slice(0, maxLinkedDocuments);
+
+    const linkedResults = await supabaseService.vectorSearch(preparedQuery.embedding, {
+      search_table: searchTable,
+      similarity_threshold: linkedSimilarityThreshold,
+      match_count: linkedChunkLimit,
+      dateFrom: preparedQuery.dateRange.start,
+      dateTo: preparedQuery.dateRange.end,
+      filters: { ...retrievalOptions.filters, docIds: linkedDocIds },
+      embedding_model: preparedQuery.searchModel
+    });
+
+    const linkedChunks = await supersessionPolicy.apply((linkedResults || []).map(item => ({
+      content: item.content,
+      similarity: item.similarity,
+      doc_id: item.doc_id,
+      metadata: item.metadata,
+      related_via: linked.get(item.doc_id)
+    })), retrievalOptions.supersession);
+
+    const relatedChunks = await languageVersionResolver.apply(linkedChunks);
+
+    return [...seedResults, ...relatedChunks];
+
+  } catch (error) {
+    console.error('Error in graph expanded search:', error);
+    return null;
+  }
+};
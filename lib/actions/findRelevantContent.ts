@@ -1,93 +1,118 @@
-import { embeddingService } from '../embeddings/EmbeddingService';
-import { supabaseService } from '../database/SupabaseService';
-import { getDateAndTimeFromQuery } from './getDateAndTimeFromQuery';
+import { embeddingIndexManager, QueryEmbedding } from '../embeddings/EmbeddingIndexManager';
+import { supabaseService, SearchTable, DocumentFilters, DocumentMetadata } from '../database/SupabaseService';
+import { getDateAndTimeFromQuery, DateRange } from './getDateAndTimeFromQuery';
+import { rankFusion, FusionOptions } from '../retrieval/RankFusion';
+import { reranker, RerankOptions } from '../retrieval/Reranker';
+import { supersessionPolicy, SupersessionMode } from '../retrieval/Supersession';
+import { languageVersionResolver } from '../retrieval/LanguageVersions';
 // import { logger, LogCategory } from '../logging/Logger';
 
+export interface FindRelevantContentOptions {
+  fusion?: FusionOptions; // how the vector and keyword result lists are fused (RRF by default)
+  rerank?: RerankOptions; // optional cross-encoder / LLM reranking of the fused candidates
+  filters?: DocumentFilters; // structured metadata filters (document type, topic, guideline number, ...)
+  supersession?: SupersessionMode; // how chunks from superseded documents are treated
+  contextWindow?: number; // attach the ±N neighbouring chunks of the same type of every hit
+  smallToBig?: SmallToBigOptions; // match small chunks, return their enclosing chunk
+  embeddingIndex?: string; // embedding model of the index to search, the active index by default
+  preparedQuery?: PreparedQuery; // query embedding and date range already computed by the caller
+}
+
+export interface PreparedQuery extends QueryEmbedding {
+  dateRange: DateRange;
+}
+
+export interface SmallToBigOptions {
+  enabled?: boolean;
+  matchChunkTypes?: string[]; // chunk types the query is matched against, sentences and paragraphs by default
+  returnChunkType?: string; // enclosing chunk type handed to the LLM, sections by default
+}
+
+/**
+ * Embed the query with the model of the index being searched and get the date range it is restricted to
+ */
+export const prepareQuery = async (userQuery: string, embeddingIndex?: string): Promise<PreparedQuery> => {
+  const queryEmbedding = await embeddingIndexManager.embedQuery(userQuery, embeddingIndex);
+  const dateRange = await getDateAndTimeFromQuery(userQuery);
+  return { ...queryEmbedding, dateRange };
+};
+
 /**
  * Enhanced function that performs vector search with optional date filtering
  * 
  * @param userQuery The user's query text
  * @param limit Maximum number of results to return
+ * @param options Optional retrieval stages, see FindRelevantContentOptions
  * @returns Array of relevant content with similarity scores or error object
  */
-export const findRelevantContent = async (userQuery: string, limit: number, searchTable: string, similarityThreshold: number) => {
+export const findRelevantContent = async (
+  userQuery: string,
+  limit: number,
+  searchTable: SearchTable,
+  similarityThreshold: number,
+  options: FindRelevantContentOptions = {}
+) => {
+  const {
+    fusion: fusionOptions = {},
+    rerank: rerankOptions = {},
+    filters = {},
+    supersession = 'demote',
+    contextWindow = 0,
+    smallToBig = {},
+    embeddingIndex,
+    preparedQuery
+  } = options;
+
+  // Small-to-big only applies to hierarchically chunked rows
+  let smallToBigEnabled = smallToBig.enabled === true && searchTable === 'brdr_documents_data';
+  const smallChunkFilters: DocumentFilters = { ...filters, chunkTypes: smallToBig.matchChunkTypes ?? ['sentence', 'paragraph'] };
+
   try {
     // logger.info(LogCategory.SEARCH, `Finding relevant content for query: "${userQuery}"`);
    
-    // Step 1: Generate embedding for the user query
-    const embeddingResult = await embeddingService.generateEmbedding(userQuery);
-    const userQueryEmbedding = embeddingResult.embedding;
+    // Step 1 & 2: Embed the user query and get the date range it is restricted to
+    const { embedding: userQueryEmbedding, searchModel, dateRange } = preparedQuery ?? await prepareQuery(userQuery, embeddingIndex);
     
     console.log("Query Embedding done");
 
+    // Retrieve a deeper candidate list from each retriever so fusion has something to work with
+    const candidateCount = limit * 2;
 
-    // Step 2: Get date values from the user query
-    const result = await getDateAndTimeFromQuery(userQuery);
-    
-    // Extract date values from the result
-    console.log("date result is", result.content);
-    
-    let start_year = 1989;
-    let start_month = 1;
-    let start_day = 1;
-
-    // the date today (dynamic)
-    let end_year = (new Date()).getFullYear();
-    let end_month = (new Date()).getMonth() + 1;
-    let end_day = (new Date()).getDate();
-
-    if (result.content[0]?.type === 'text') {
-      const text = result.content[0].text;
-      
-      
-        // Fallback to regex extraction if JSON parsing fails
-        try {
-          const startYearMatch = text.match(/Start Year:\s*(\d+)/i);
-          const startMonthMatch = text.match(/Start Month:\s*(\d+)/i);
-          const startDayMatch = text.match(/Start Day:\s*(\d+)/i);
-          const endYearMatch = text.match(/End Year:\s*(\d+)/i);
-          const endMonthMatch = text.match(/End Month:\s*(\d+)/i);
-          const endDayMatch = text.match(/End Day:\s*(\d+)/i);
-          
-          start_year = startYearMatch ? parseInt(startYearMatch[1]) : 1989;
-          start_month = startMonthMatch ? parseInt(startMonthMatch[1]) : 1;
-          start_day = startDayMatch ? parseInt(startDayMatch[1]) : 1;
-          end_year = endYearMatch ? parseInt(endYearMatch[1]) : (new Date()).getFullYear();
-          end_month = endMonthMatch ? parseInt(endMonthMatch[1]) : (new Date()).getMonth() + 1;
-          end_day = endDayMatch ? parseInt(endDayMatch[1]) : (new Date()).getDate();
-          
-          console.log("Extracted date values using regex:", { 
-            start_year, start_month, start_day, 
-            end_year, end_month, end_day 
-          });
-        } catch (error) {
-          console.error("Error extracting dates with regex:", error);
+    // step 3: do vector search with date filtering, then keyword search
+    const search = async (searchFilters: DocumentFilters) => {
+      const vectorResults = await supabaseService.vectorSearch(
+        userQueryEmbedding, {
+          search_table: searchTable,
+          similarity_threshold: similarityThreshold,
+          match_count: candidateCount,
+          dateFrom: dateRange.start,
+          dateTo: dateRange.end,
+          filters: searchFilters,
+          embedding_model: searchModel
         }
-      
-    }
-    // step 3: do vector search with date filtering
+      );
 
-    
-    const vectorResults = await supabaseService.vectorSearch(
-      userQueryEmbedding, {
-        search_table: searchTable,
-        similarity_threshold: similarityThreshold,
-        match_count: limit,
-        start_year,
-        start_month,
-        start_day,
-        end_year,
-        end_month,
-        end_day
-      }
-    );
+      const keywordResults = await supabaseService.keywordSearch(
+        userQuery, {
+          search_table: searchTable,
+          match_count: candidateCount,
+          dateFrom: dateRange.start,
+          dateTo: dateRange.end,
+          filters: searchFilters
+        }
+      );
 
-    // step 3: do keyword search
-    const keywordResults = await supabaseService.keywordSearch(
-      userQuery, {
-        match_count: limit
-      }
-    );
+      return { vectorResults, keywordResults };
+    };
+
+    let { vectorResults, keywordResults } = await search(smallToBigEnabled ? smallChunkFilters : filters);
+
+    // A corpus chunked without the hierarchical strategy has no sentence or paragraph rows, search its chunks as they are
+    if (smallToBigEnabled && !vectorResults?.length && !keywordResults?.length) {
+      console.info('No small chunks matched, searching without small-to-big');
+      smallToBigEnabled = false;
+      ({ vectorResults, keywordResults } = await search(filters));
+    }
 
     // Step 4: Combine and process results
     if (vectorResults === null && keywordResults === null
@@ -96,35 +121,84 @@ export const findRelevantContent = async (userQuery: string, limit: number, sear
       return null;
     }
 
-    // Combine the results 
-    const allResults = [...(vectorResults || []), ...(keywordResults || [])];
-    
-    // Remove duplicates based on id
-    const uniqueResults = allResults.reduce((acc, current) => {
-      const exists = acc.find(item => item.id === current.id);
-      if (!exists) {
-        acc.push(current);
-      } else if (current.similarity > exists.similarity) {
-        // Keep the one with higher similarity
-        const index = acc.findIndex(item => item.id === current.id);
-        acc[index] = current;
-      }
-      return acc;
-    }, [] as typeof allResults);
+    // Keep more fused candidates than requested so reranking and supersession demotion can reorder them
+    const rerankEnabled = rerankOptions.enabled === true;
+    const poolSize = rerankEnabled ? Math.max(candidateCount, rerankOptions.top_n ?? 20) : candidateCount;
 
-    // Sort by similarity and limit results
-    const finalResults = uniqueResults
-      .sort((a, b) => b.similarity - a.similarity)
-      .slice(0, limit);
+    // Fuse the ranked lists so keyword hits are not buried under their zero similarity
+    const fusedResults = rankFusion.fuse(
+      [
+        { retriever: 'vector', results: vectorResults },
+        { retriever: 'keyword', results: keywordResults }
+      ],
+      { ...fusionOptions, match_count: poolSize }
+    );
 
-    // logger.info(LogCategory.SEARCH, `Found ${finalResults.length} relevant content items`);
+    // logger.info(LogCategory.SEARCH, `Found ${fusedResults.length} relevant content items`);
 
-    return finalResults.map(item => ({
+    const candidates = fusedResults.map(item => ({
+      id: item.id,
       content: item.content,
       similarity: item.similarity,
+      fused_score: item.fused_score,
+      contributions: item.contributions,
       doc_id: item.doc_id,
       metadata: item.metadata
     }));
+
+    // Step 5: Rescore the candidates against the question
+    let rankedResults: (typeof candidates[number] & { original_rank?: number; original_score?: number; rerank_score?: number })[] = candidates;
+    if (rerankEnabled) {
+      try {
+        rankedResults = await reranker.rerank(userQuery, candidates, { ...rerankOptions, top_n: poolSize });
+      } catch (error) {
+        console.error('Reranking failed, falling back to fused order:', error);
+      }
+    }
+
+    // Step 6: Mark chunks from superseded documents and prefer current guidance
+    const finalResults = await supersessionPolicy.apply(rankedResults, supersession);
+
+    // Step 7: Swap matched sentences / paragraphs for their enclosing section, once per section
+    const selectedResults = smallToBigEnabled
+      ? (await expandToEnclosingChunks(finalResults, smallToBig.returnChunkType ?? 'section')).slice(0, limit)
+      : finalResults.slice(0, limit);
+
+    // Step 8: Language of every hit, with links to its PDF and to the other language version
+    const topResults = await languageVersionResolver.apply(selectedResults);
+
+    if (contextWindow <= 0 || searchTable !== 'brdr_documents_data') {
+      return topResults;
+    }
+
+    // Step 9: Stitch each hit together with its neighbouring chunks
+    const passages = await supabaseService.getChunkContext(topResults, contextWindow);
+    const passageByHitId = new Map(
+      passages.flatMap(passage => passage.chunks
+        .filter(chunk => chunk.is_original_match)
+        .map(chunk => [chunk.id, passage] as const))
+    );
+
+    // Hits whose passage is already attached to a better-ranked hit are dropped, the passage contains them
+    const attached = new Set<typeof passages[number]>();
+    return topResults.flatMap(result => {
+      const passage = passageByHitId.get(result.id);
+      if (!passage) {
+        return [result];
+      }
+      if (attached.has(passage)) {
+        return [];
+      }
+      attached.add(passage);
+      return [{
+        ...result,
+        context: {
+          chunk_ids: passage.chunk_ids,
+          original_chunk_ids: passage.original_chunk_ids,
+          content: passage.content
+        }
+      }];
+    });
     
   } catch (error) {
     // logger.error(LogCategory.SEARCH, 'Error in findRelevantContent:', error);
@@ -133,6 +207,42 @@ export const findRelevantContent = async (userQuery: string, limit: number, sear
   }
 };
 
+/**
+ * Replace every result with its enclosing chunk of the given type, keeping the matched small
+ * chunk under `matched`. Later results inside an already returned chunk are dropped.
+ */
+const expandToEnclosingChunks = async <T extends { id: string; content: string; doc_id: string; metadata?: DocumentMetadata }>(
+  results: T[],
+  chunkType: string
+) => {
+  const enclosing = await supabaseService.getEnclosingChunks(results.map(result => result.id), chunkType);
+  const seen = new Set<string>();
+
+  return results.flatMap(result => {
+    const parent = enclosing.get(result.id);
+    if (!parent || parent.id === result.id) {
+      if (seen.has(result.id)) return [];
+      seen.add(result.id);
+      return [result];
+    }
+
+    if (seen.has(parent.id)) return [];
+    seen.add(parent.id);
+
+    return [{
+      ...result,
+      id: parent.id,
+      content: parent.content,
+      metadata: parent.metadata,
+      matched: {
+        id: result.id,
+        chunk_type: result.metadata?.chunkType,
+        content: result.content
+      }
+    }];
+  });
+};
+
 /**
  * Example usage:
  * 
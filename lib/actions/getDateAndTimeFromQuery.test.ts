@@ -0,0 +1,104 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { parseDateRange, getDateAndTimeFromQuery, EARLIEST_DOCUMENT_DATE } from './getDateAndTimeFromQuery';
+
+// Every range is resolved against the same day, so rolling windows are stable
+const NOW = new Date(2025, 5, 15);
+
+const day = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+const EARLIEST = day(EARLIEST_DOCUMENT_DATE);
+const TODAY = day(NOW);
+
+// [query, start, end] of queries with a date expression the parser resolves
+const DATED_QUERIES: [string, string, string][] = [
+  // The examples of the request
+  ['capital adequacy circulars since 2020', '2020-01-01', TODAY],
+  ['liquidity guidance issued in Q3 2019', '2019-07-01', '2019-09-30'],
+  ['what applied before the 2023 Basel III circular', EARLIEST, '2022-12-31'],
+  ['AML guidance from the last 18 months', '2023-12-15', TODAY],
+
+  // Ranges and quarters
+  ['stress testing between 2018 and 2020', '2018-01-01', '2020-12-31'],
+  ['climate risk 2021-2023', '2021-01-01', '2023-12-31'],
+  ['third quarter of 2019 circulars', '2019-07-01', '2019-09-30'],
+  ['2019 Q4 updates', '2019-10-01', '2019-12-31'],
+
+  // Months
+  ['operational resilience since March 2021', '2021-03-01', TODAY],
+  ['consultations after Jan 2024', '2024-02-01', TODAY],
+  ['capital rules before June 2018', EARLIEST, '2018-05-31'],
+  ['sanctions guidance until June 2018', EARLIEST, '2018-06-30'],
+  ['the September 2022 letter on virtual assets', '2022-09-01', '2022-09-30'],
+
+  // Open-ended years
+  ['cyber security after 2015', '2016-01-01', TODAY],
+  ['deposit protection prior to 2010', EARLIEST, '2009-12-31'],
+  ['payment systems up to 2019', EARLIEST, '2019-12-31'],
+
+  // Single years with a preposition or a document noun
+  ['what did the HKMA publish in 2019', '2019-01-01', '2019-12-31'],
+  ['fintech during 2020', '2020-01-01', '2020-12-31'],
+  ['2019 circulars on consumer protection', '2019-01-01', '2019-12-31'],
+
+  // Rolling and calendar windows
+  ['green finance in the past year', '2024-06-15', TODAY],
+  ['circulars from last year', '2024-01-01', '2024-12-31'],
+  ['what changed last month', '2025-05-01', '2025-05-31'],
+  ['guidelines issued this year', '2025-01-01', TODAY],
+  ['last 30 days', '2025-05-16', TODAY]
+];
+
+// Queries with a year that is part of a title or number, not a time constraint
+const UNDATED_QUERIES = [
+  'Banking (Capital) Rules 2006',
+  'What does section 3 of the Banking (Liquidity) Rules 2015 require?',
+  'Explain the Anti-Money Laundering and Counter-Terrorist Financing Ordinance',
+  'Supervisory Policy Manual module CR-G-1'
+];
+
+describe('parseDateRange', () => {
+  for (const [query, start, end] of DATED_QUERIES) {
+    it(`resolves "${query}"`, () => {
+      const range = parseDateRange(query, NOW);
+      assert.ok(range, `no range for "${query}"`);
+      assert.equal(range.source, 'parser');
+      assert.deepEqual([day(range.start), day(range.end)], [start, end]);
+    });
+  }
+
+  for (const query of UNDATED_QUERIES) {
+    it(`sets no range for "${query}"`, () => {
+      assert.equal(parseDateRange(query, NOW), null);
+    });
+  }
+
+  it('clamps ranges to the corpus window', () => {
+    const range = parseDateRange('circulars since 1985', NOW);
+    assert.ok(range);
+    assert.deepEqual([day(range.start), day(range.end)], [EARLIEST, TODAY]);
+
+    const clamped = parseDateRange('everything before 1990', NOW);
+    assert.ok(clamped);
+    assert.deepEqual([day(clamped.start), day(clamped.end)], [EARLIEST, '1989-12-31']);
+  });
+
+  it('rejects ranges that end before the corpus starts', () => {
+    assert.equal(parseDateRange('prior to 1989', NOW), null);
+  });
+});
+
+describe('getDateAndTimeFromQuery', () => {
+  it('returns the whole corpus window for a query without a time constraint', async () => {
+    const range = await getDateAndTimeFromQuery('Banking (Capital) Rules 2006', NOW);
+    assert.equal(range.source, 'default');
+    assert.deepEqual([day(range.start), day(range.end)], [EARLIEST, TODAY]);
+  });
+
+  it('uses the parser before the LLM fallback', async () => {
+    const range = await getDateAndTimeFromQuery('capital adequacy circulars since 2020', NOW);
+    assert.equal(range.source, 'parser');
+    assert.equal(range.matchedText, 'since 2020');
+  });
+});
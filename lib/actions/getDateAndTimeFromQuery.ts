@@ -1,16 +1,270 @@
-import { generateText } from 'ai';
+import { generateObject } from 'ai';
+import { z } from 'zod';
 import { myProvider } from '../ai/providers';
 
-export const getDateAndTimeFromQuery = async (query: string, limit: number = 10) => {
+/**
+ * Inclusive date range extracted from a user query.
+ * `source` tells whether the range came from the deterministic parser, the LLM fallback
+ * or is the default "whole corpus" range.
+ */
+export interface DateRange {
+  start: Date;
+  end: Date;
+  source: 'parser' | 'llm' | 'default';
+  matchedText?: string;
+}
 
-    // given a query use an llm to extract the year, month and day from the query
-    const result = await generateText({
-        model: myProvider.languageModel('azure-sm-model'),
-        prompt: `Extract the start year, start month, start day, end year, end month and end day from the following query: ${query} in the format of {start_year: number, start_month: number, start_day: number, end_year: number, end_month: number, end_day: number}`,
-    });
+// Earliest issue date in the BRDR corpus
+export const EARLIEST_DOCUMENT_DATE = new Date(1989, 0, 1);
 
-    console.log("result from getDateAndTimeFromQuery is", result);
+const MONTHS: Record<string, number> = {
+  jan: 0, january: 0, feb: 1, february: 1, mar: 2, march: 2, apr: 3, april: 3,
+  may: 4, jun: 5, june: 5, jul: 6, july: 6, aug: 7, august: 7, sep: 8, sept: 8, september: 8,
+  oct: 9, october: 9, nov: 10, november: 10, dec: 11, december: 11
+};
 
-    return result;
-    
+const QUARTER_WORDS: Record<string, number> = { first: 1, second: 2, third: 3, fourth: 4 };
+
+const MONTH_PATTERN = Object.keys(MONTHS).sort((a, b) => b.length - a.length).join('|');
+const YEAR_PATTERN = '(19[89]\\d|20\\d{2})';
+
+// Nouns that make "2019 circulars" a date constraint; a bare year is usually part of a title, e.g. "Banking (Capital) Rules 2006"
+const DOCUMENT_NOUN_PATTERN = 'circulars?|guidelines?|guidance|letters?|papers?|consultations?|documents?|publications?|notices?|updates?|amendments?|reports?';
+
+// Phrases that hint at a time constraint the parser could not resolve
+const TEMPORAL_HINT = /\b(recent(ly)?|latest|newest|ago|since|before|after|prior to|until|during|earlier|decade|era)\b/i;
+
+const llmDateRangeSchema = z.object({
+  hasDateRange: z.boolean().describe('false when the query does not restrict the time period'),
+  start: z.string().nullable().describe('inclusive start date as YYYY-MM-DD, or null when open-ended'),
+  end: z.string().nullable().describe('inclusive end date as YYYY-MM-DD, or null when open-ended')
+});
+
+const startOfYear = (year: number) => new Date(year, 0, 1);
+const endOfYear = (year: number) => new Date(year, 11, 31);
+const startOfMonth = (year: number, month: number) => new Date(year, month, 1);
+const endOfMonth = (year: number, month: number) => new Date(year, month + 1, 0);
+const startOfDay = (date: Date) => new Date(date.getFullYear(), date.getMonth(), date.getDate());
+
+const subtract = (now: Date, amount: number, unit: string): Date => {
+  const date = startOfDay(now);
+  switch (unit) {
+    case 'day':
+      date.setDate(date.getDate() - amount);
+      break;
+    case 'week':
+      date.setDate(date.getDate() - amount * 7);
+      break;
+    case 'month':
+      date.setMonth(date.getMonth() - amount);
+      break;
+    case 'year':
+      date.setFullYear(date.getFullYear() - amount);
+      break;
+  }
+  return date;
+};
+
+/**
+ * Clamp a range to the corpus window and reject inverted ranges.
+ */
+const validateRange = (range: DateRange, now: Date): DateRange | null => {
+  const today = startOfDay(now);
+  const start = range.start < EARLIEST_DOCUMENT_DATE ? EARLIEST_DOCUMENT_DATE : range.start;
+  const end = range.end > today ? today : range.end;
+
+  if (isNaN(start.getTime()) || isNaN(end.getTime()) || start > end) {
+    return null;
+  }
+
+  return { ...range, start, end };
+};
+
+type Rule = {
+  pattern: RegExp;
+  resolve: (match: RegExpMatchArray, now: Date) => { start: Date; end: Date };
+};
+
+// Ordered from most to least specific; the first rule that matches wins
+const RULES: Rule[] = [
+  // "between 2018 and 2020", "from 2018 to 2020", "2018-2020"
+  {
+    pattern: new RegExp(`\\b(?:between|from)\\s+${YEAR_PATTERN}\\s+(?:and|to|until)\\s+${YEAR_PATTERN}\\b|\\b${YEAR_PATTERN}\\s*[-–]\\s*${YEAR_PATTERN}\\b`, 'i'),
+    resolve: (m) => {
+      const first = parseInt(m[1] ?? m[3]);
+      const second = parseInt(m[2] ?? m[4]);
+      return { start: startOfYear(Math.min(first, second)), end: endOfYear(Math.max(first, second)) };
+    }
+  },
+  // "Q3 2019", "in Q3 of 2019", "third quarter of 2019"
+  {
+    pattern: new RegExp(`\\b(?:q([1-4])|(first|second|third|fourth)\\s+quarter)\\s+(?:of\\s+)?${YEAR_PATTERN}\\b`, 'i'),
+    resolve: (m) => {
+      const quarter = m[1] ? parseInt(m[1]) : QUARTER_WORDS[m[2].toLowerCase()];
+      const year = parseInt(m[3]);
+      return { start: startOfMonth(year, (quarter - 1) * 3), end: endOfMonth(year, quarter * 3 - 1) };
+    }
+  },
+  // "2019 Q3"
+  {
+    pattern: new RegExp(`\\b${YEAR_PATTERN}\\s+q([1-4])\\b`, 'i'),
+    resolve: (m) => {
+      const year = parseInt(m[1]);
+      const quarter = parseInt(m[2]);
+      return { start: startOfMonth(year, (quarter - 1) * 3), end: endOfMonth(year, quarter * 3 - 1) };
+    }
+  },
+  // "last 18 months", "past 2 years", "previous 30 days"
+  {
+    pattern: /\b(?:last|past|previous)\s+(\d{1,3})\s+(day|week|month|year)s?\b/i,
+    resolve: (m, now) => ({ start: subtract(now, parseInt(m[1]), m[2].toLowerCase()), end: startOfDay(now) })
+  },
+  // "past year", "past month": a rolling window
+  {
+    pattern: /\b(?:past|recent)\s+(day|week|month|year)\b/i,
+    resolve: (m, now) => ({ start: subtract(now, 1, m[1].toLowerCase()), end: startOfDay(now) })
+  },
+  // "last year", "previous year": the previous calendar year
+  {
+    pattern: /\b(?:last|previous)\s+year\b/i,
+    resolve: (m, now) => ({ start: startOfYear(now.getFullYear() - 1), end: endOfYear(now.getFullYear() - 1) })
+  },
+  // "last month": the previous calendar month
+  {
+    pattern: /\b(?:last|previous)\s+month\b/i,
+    resolve: (m, now) => ({
+      start: startOfMonth(now.getFullYear(), now.getMonth() - 1),
+      end: endOfMonth(now.getFullYear(), now.getMonth() - 1)
+    })
+  },
+  // "this year", "so far this year", "year to date"
+  {
+    pattern: /\b(?:this\s+year|year[\s-]to[\s-]date|ytd)\b/i,
+    resolve: (m, now) => ({ start: startOfYear(now.getFullYear()), end: startOfDay(now) })
+  },
+  // "since March 2021", "after Jan 2020", "from June 2018"
+  {
+    pattern: new RegExp(`\\b(since|after|from)\\s+(${MONTH_PATTERN})\\.?\\s+${YEAR_PATTERN}\\b`, 'i'),
+    resolve: (m, now) => {
+      const month = MONTHS[m[2].toLowerCase()];
+      const year = parseInt(m[3]);
+      const start = m[1].toLowerCase() === 'after' ? startOfMonth(year, month + 1) : startOfMonth(year, month);
+      return { start, end: startOfDay(now) };
+    }
+  },
+  // "before March 2021", "until June 2018"
+  {
+    pattern: new RegExp(`\\b(before|prior\\s+to|until|up\\s+to)\\s+(?:the\\s+)?(${MONTH_PATTERN})\\.?\\s+${YEAR_PATTERN}\\b`, 'i'),
+    resolve: (m) => {
+      const month = MONTHS[m[2].toLowerCase()];
+      const year = parseInt(m[3]);
+      const exclusive = /^(before|prior)/i.test(m[1]);
+      return { start: EARLIEST_DOCUMENT_DATE, end: exclusive ? endOfMonth(year, month - 1) : endOfMonth(year, month) };
+    }
+  },
+  // "March 2021", "in Sep 2019"
+  {
+    pattern: new RegExp(`\\b(${MONTH_PATTERN})\\.?\\s+(?:of\\s+)?${YEAR_PATTERN}\\b`, 'i'),
+    resolve: (m) => {
+      const month = MONTHS[m[1].toLowerCase()];
+      const year = parseInt(m[2]);
+      return { start: startOfMonth(year, month), end: endOfMonth(year, month) };
+    }
+  },
+  // "since 2020", "from 2020 onwards", "after 2015"
+  {
+    pattern: new RegExp(`\\b(since|after|from)\\s+(?:the\\s+)?${YEAR_PATTERN}\\b`, 'i'),
+    resolve: (m, now) => {
+      const year = parseInt(m[2]);
+      return { start: startOfYear(m[1].toLowerCase() === 'after' ? year + 1 : year), end: startOfDay(now) };
+    }
+  },
+  // "before 2023", "before the 2023 Basel III circular", "prior to 2010", "until 2019"
+  {
+    pattern: new RegExp(`\\b(before|prior\\s+to|until|up\\s+to)\\s+(?:the\\s+)?${YEAR_PATTERN}\\b`, 'i'),
+    resolve: (m) => {
+      const year = parseInt(m[2]);
+      const exclusive = /^(before|prior)/i.test(m[1]);
+      return { start: EARLIEST_DOCUMENT_DATE, end: endOfYear(exclusive ? year - 1 : year) };
+    }
+  },
+  // "in 2019", "during 2019", "2019 circulars": a year with a temporal preposition or a document noun
+  {
+    pattern: new RegExp(`\\b(?:in|during|throughout)\\s+${YEAR_PATTERN}\\b|\\b${YEAR_PATTERN}\\s+(?:${DOCUMENT_NOUN_PATTERN})\\b`, 'i'),
+    resolve: (m) => {
+      const year = parseInt(m[1] ?? m[2]);
+      return { start: startOfYear(year), end: endOfYear(year) };
+    }
+  }
+];
+
+/**
+ * Deterministically extract a date range from a query.
+ *
+ * Handles absolute years and ranges ("in 2019", "2019 circulars", "between 2018 and 2020"), quarters ("Q3 2019"),
+ * months ("March 2021"), open-ended bounds ("since 2020", "before the 2023 Basel III circular")
+ * and rolling windows ("last 18 months", "past year").
+ *
+ * @returns the range, or null when the query has no date expression the parser understands
+ */
+export const parseDateRange = (query: string, now: Date = new Date()): DateRange | null => {
+  for (const rule of RULES) {
+    const match = query.match(rule.pattern);
+    if (!match) continue;
+
+    const { start, end } = rule.resolve(match, now);
+    return validateRange({ start, end, source: 'parser', matchedText: match[0] }, now);
+  }
+
+  return null;
+};
+
+/**
+ * Ask the LLM for a date range; only used when the parser found nothing but the query
+ * still looks time-bound (e.g. "since the latest capital rules came out").
+ */
+const extractDateRangeWithLLM = async (query: string, now: Date): Promise<DateRange | null> => {
+  const { object } = await generateObject({
+    model: myProvider.languageModel('azure-sm-model'),
+    schema: llmDateRangeSchema,
+    prompt: `Today is ${now.toISOString().substring(0, 10)}. Extract the issue date range the user is interested in from the following query about HKMA banking regulation documents: ${query}`,
+  });
+
+  if (!object.hasDateRange) {
+    return null;
+  }
+
+  return validateRange({
+    start: object.start ? new Date(`${object.start}T00:00:00`) : EARLIEST_DOCUMENT_DATE,
+    end: object.end ? new Date(`${object.end}T00:00:00`) : startOfDay(now),
+    source: 'llm'
+  }, now);
+};
+
+/**
+ * Resolve the date range a query is restricted to.
+ * Falls back to the whole corpus window when no range can be determined.
+ */
+export const getDateAndTimeFromQuery = async (query: string, now: Date = new Date()): Promise<DateRange> => {
+  const defaultRange: DateRange = { start: EARLIEST_DOCUMENT_DATE, end: startOfDay(now), source: 'default' };
+
+  const parsed = parseDateRange(query, now);
+  if (parsed) {
+    return parsed;
+  }
+
+  if (!TEMPORAL_HINT.test(query)) {
+    return defaultRange;
+  }
+
+  try {
+    const llmRange = await extractDateRangeWithLLM(query, now);
+    if (!llmRange) {
+      console.info('The LLM found no date range in the query, searching the whole corpus');
+    }
+    return llmRange || defaultRange;
+  } catch (error) {
+    console.error("Error extracting date range with LLM:", error);
+    return defaultRange;
   }
+};
@@ -0,0 +1,176 @@
+import { HierarchicalChunker, ChunkingOptions } from './HierarchicalChunker';
+import { markdownPageChunker, MarkdownPageChunker, PageChunk, PageChunkType, ProcessedDocument } from './MarkdownPageChunker';
+import { headingPathTracker, HeadingContext } from './HeadingPathTracker';
+
+/**
+ * How a document is split into chunks before embedding:
+ * - `page`: one chunk per PDF page (MarkdownPageChunker)
+ * - `hierarchical`: every page split into sections, paragraphs and sentences, linked to their parents
+ * - `token-window`: fixed-size windows over the whole document, overlapping by `overlap` tokens
+ * Table chunks from MarkdownPageChunker are kept as they are by every strategy.
+ */
+export type ChunkingStrategy = 'page' | 'hierarchical' | 'token-window';
+
+export interface ChunkingStrategyOptions {
+  strategy?: ChunkingStrategy;
+  maxTokens?: number;
+  overlap?: number;
+  hierarchyLevels?: number; // levels below the page to keep: 1 = sections, 2 = + paragraphs, 3 = + sentences
+}
+
+const HIERARCHY_CHUNK_TYPES: PageChunkType[] = ['page', 'section', 'paragraph', 'sentence'];
+
+export class DocumentChunker {
+  constructor(private readonly pageChunker: MarkdownPageChunker = markdownPageChunker) {}
+
+  /**
+   * Re-chunk the pages of a processed document with the requested strategy.
+   * Every chunk keeps the number of the page it starts on.
+   */
+  async chunk(document: ProcessedDocument, options: ChunkingStrategyOptions = {}): Promise<PageChunk[]> {
+    const { strategy = 'page' } = options;
+
+    switch (strategy) {
+      case 'hierarchical':
+        return this.chunkHierarchically(document, options);
+      case 'token-window':
+        return this.chunkTokenWindows(document, options);
+      case 'page':
+      default:
+        return document.chunks;
+    }
+  }
+
+  private async chunkHierarchically(document: ProcessedDocument, options: ChunkingStrategyOptions): Promise<PageChunk[]> {
+    const { maxTokens, overlap, hierarchyLevels = 3 } = options;
+
+    const chunkerOptions: Partial<ChunkingOptions> = { hierarchyLevels };
+    if (maxTokens !== undefined) chunkerOptions.maxTokens = maxTokens;
+    if (overlap !== undefined) chunkerOptions.overlap = overlap;
+    const chunker = new HierarchicalChunker(chunkerOptions);
+
+    const chunks: PageChunk[] = [];
+
+    for (const page of document.chunks) {
+      // Table chunks are already self-contained
+      if (page.metadata.chunkType === 'table') {
+        chunks.push(page);
+        continue;
+      }
+
+      // Chunk ids are prefixed with the page so they stay unique across the document
+      const pageChunks = await chunker.chunkDocument(page.cleanContent, `${document.docId}_page_${page.pageNumber}`);
+      const kept = pageChunks.filter(chunk => chunk.metadata.level <= hierarchyLevels);
+      const keptIds = new Set(kept.map(chunk => chunk.id));
+
+      for (const chunk of kept) {
+        chunks.push({
+          id: chunk.id,
+          pageNumber: page.pageNumber,
+          content: chunk.content,
+          cleanContent: chunk.content,
+          metadata: {
+            chunkId: chunk.id,
+            level: chunk.metadata.level + 1,
+            chunkType: HIERARCHY_CHUNK_TYPES[chunk.metadata.level],
+            pageNumber: page.pageNumber,
+            parentChunkId: chunk.metadata.parentChunkId,
+            childChunkIds: chunk.metadata.childChunkIds.filter(id => keptIds.has(id)),
+            tokens: this.pageChunker.estimateTokens(chunk.content),
+            keywords: this.pageChunker.extractKeywords(chunk.content),
+            startIndex: page.metadata.startIndex + chunk.metadata.startIndex,
+            endIndex: page.metadata.startIndex + chunk.metadata.endIndex,
+            ...this.getHeadingMetadata(page, chunk.metadata.level === 0 ? undefined : chunk.metadata.startIndex)
+          }
+        });
+      }
+    }
+
+    return chunks;
+  }
+
+  private chunkTokenWindows(document: ProcessedDocument, options: ChunkingStrategyOptions): PageChunk[] {
+    const { maxTokens = 512, overlap = 50 } = options;
+
+    const pages = document.chunks.filter(chunk => chunk.metadata.chunkType !== 'table');
+    const tables = document.chunks.filter(chunk => chunk.metadata.chunkType === 'table');
+
+    // Windows run across page boundaries, so remember which page every word came from
+    const words: { text: string; page: PageChunk; position: number; tokens: number }[] = pages.flatMap(page =>
+      Array.from(page.cleanContent.matchAll(/\S+/g)).map(match => ({
+        text: match[0],
+        page,
+        position: match.index ?? 0,
+        tokens: this.pageChunker.estimateTokens(`${match[0]} `)
+      }))
+    );
+
+    const chunks: PageChunk[] = [];
+    let start = 0;
+
+    while (start < words.length) {
+      // Grow the window until it would exceed maxTokens (always at least one word)
+      let end = start;
+      let tokens = 0;
+      while (end < words.length && (end === start || tokens + words[end].tokens <= maxTokens)) {
+        tokens += words[end].tokens;
+        end++;
+      }
+
+      const windowWords = words.slice(start, end);
+      const content = windowWords.map(word => word.text).join(' ');
+      const id = `${document.docId}_window_${chunks.length + 1}`;
+      const pageNumber = windowWords[0].page.pageNumber;
+      const endPageNumber = windowWords[windowWords.length - 1].page.pageNumber;
+
+      chunks.push({
+        id,
+        pageNumber,
+        content,
+        cleanContent: content,
+        metadata: {
+          chunkId: id,
+          level: 1,
+          chunkType: 'window',
+          pageNumber,
+          endPageNumber: endPageNumber !== pageNumber ? endPageNumber : undefined,
+          tokens: this.pageChunker.estimateTokens(content),
+          keywords: this.pageChunker.extractKeywords(content),
+          startIndex: start, // word offsets within the document
+          endIndex: end,
+          ...this.getHeadingMetadata(windowWords[0].page, windowWords[0].position)
+        }
+      });
+
+      if (end >= words.length) break;
+
+      // Step back by roughly `overlap` tokens, but always move forward
+      let overlapStart = end;
+      let overlapTokens = 0;
+      while (overlapStart > start + 1 && overlapTokens + words[overlapStart - 1].tokens <= overlap) {
+        overlapTokens += words[overlapStart - 1].tokens;
+        overlapStart--;
+      }
+      start = overlap > 0 ? overlapStart : end;
+    }
+
+    // Tables are not windowed, they follow the text windows unchanged
+    return [...chunks, ...tables];
+  }
+
+  /**
+   * Heading path of a chunk starting at a position of a page's cleaned text,
+   * or of the page itself when no position is given
+   */
+  private getHeadingMetadata(page: PageChunk, cleanPosition?: number) {
+    const context: HeadingContext | undefined = page.headingContext;
+    if (cleanPosition === undefined || !context) {
+      return { headingPath: page.metadata.headingPath, sectionNumber: page.metadata.sectionNumber };
+    }
+
+    return headingPathTracker.toMetadata(headingPathTracker.pathAtCleanPosition(context, cleanPosition));
+  }
+}
+
+// Export singleton instance
+export const documentChunker = new DocumentChunker();
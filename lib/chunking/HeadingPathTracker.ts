@@ -0,0 +1,134 @@
+export interface Heading {
+  level: number;
+  text: string;
+  number?: string; // numbered section, e.g. "3.2.1"
+}
+
+export interface HeadingMarker extends Heading {
+  position: number; // offset in the markdown the heading was found in
+  cleanPosition: number; // offset in the cleaned chunk text, -1 when not found there
+}
+
+// Headings active at the start of a page and the ones found on it, used to place sub-page chunks
+export interface HeadingContext {
+  base: Heading[];
+  markers: HeadingMarker[];
+}
+
+const MARKDOWN_HEADING = /^(#{1,6})\s+(.+?)\s*#*\s*$/;
+// "3.2.1 Claims on banks", "4. Reporting requirements": short, capitalised, no closing punctuation
+const NUMBERED_HEADING = /^\s*(\d{1,2}(?:\.\d{1,2}){1,4}|\d{1,2}(?=\.))\.?\s+([A-Z][^\n]{0,80})$/;
+const SECTION_NUMBER = /^(\d{1,2}(?:\.\d{1,2}){0,4})\.?\s+/;
+const PAGE_MARKER = /^Page \d+$/;
+
+// Numbered sections always nest below markdown headings
+const NUMBERED_LEVEL_OFFSET = 6;
+
+export class HeadingPathTracker {
+  /**
+   * Find markdown headings and numbered section titles, in document order
+   */
+  extractMarkers(content: string): HeadingMarker[] {
+    const markers: HeadingMarker[] = [];
+    let offset = 0;
+
+    for (const line of content.split('\n')) {
+      const heading = this.parseHeading(line);
+      if (heading) {
+        markers.push({ ...heading, position: offset, cleanPosition: -1 });
+      }
+      offset += line.length + 1;
+    }
+
+    return markers;
+  }
+
+  /**
+   * Apply headings to a path: a heading closes every open heading at its level or deeper
+   */
+  apply(path: Heading[], headings: Heading[]): Heading[] {
+    const stack = [...path];
+
+    for (const heading of headings) {
+      while (stack.length > 0 && stack[stack.length - 1].level >= heading.level) {
+        stack.pop();
+      }
+      stack.push({ level: heading.level, text: heading.text, number: heading.number });
+    }
+
+    return stack;
+  }
+
+  /**
+   * Path active at a position of the cleaned text of a page
+   */
+  pathAtCleanPosition(context: HeadingContext, position: number): Heading[] {
+    return this.apply(
+      context.base,
+      context.markers.filter(marker => marker.cleanPosition >= 0 && marker.cleanPosition <= position)
+    );
+  }
+
+  /**
+   * Path active at a position of the raw markdown of a page
+   */
+  pathAtPosition(context: HeadingContext, position: number): Heading[] {
+    return this.apply(context.base, context.markers.filter(marker => marker.position <= position));
+  }
+
+  /**
+   * Locate every marker in the cleaned text, in order, so sub-page chunks can be placed
+   */
+  locateInCleanText(markers: HeadingMarker[], cleanContent: string, clean: (text: string) => string): void {
+    let from = 0;
+    for (const marker of markers) {
+      const needle = clean(marker.text).trim();
+      const index = needle ? cleanContent.indexOf(needle, from) : -1;
+      marker.cleanPosition = index;
+      if (index >= 0) {
+        from = index + needle.length;
+      }
+    }
+  }
+
+  /**
+   * Metadata fields for a path: the titles from the top down and the innermost section number
+   */
+  toMetadata(path: Heading[]): { headingPath?: string[]; sectionNumber?: string } {
+    if (path.length === 0) {
+      return {};
+    }
+
+    const numbered = [...path].reverse().find(heading => heading.number);
+    return {
+      headingPath: path.map(heading => heading.text),
+      sectionNumber: numbered?.number
+    };
+  }
+
+  private parseHeading(line: string): Heading | null {
+    const markdown = line.match(MARKDOWN_HEADING);
+    if (markdown) {
+      const text = markdown[2].trim();
+      if (PAGE_MARKER.test(text)) {
+        return null;
+      }
+      return { level: markdown[1].length, text, number: text.match(SECTION_NUMBER)?.[1] };
+    }
+
+    const numbered = line.match(NUMBERED_HEADING);
+    if (numbered && !/[.;:,]$/.test(numbered[2].trim())) {
+      const number = numbered[1];
+      return {
+        level: NUMBERED_LEVEL_OFFSET + number.split('.').filter(Boolean).length,
+        text: line.trim(),
+        number
+      };
+    }
+
+    return null;
+  }
+}
+
+// Export singleton instance
+export const headingPathTracker = new HeadingPathTracker();
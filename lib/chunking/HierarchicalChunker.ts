@@ -309,8 +309,9 @@ export class HierarchicalChunker {
   private splitIntoSentences(content: string, baseIndex: number = 0): Array<{ content: string; startIndex: number; endIndex: number }> {
     const sentences: Array<{ content: string; startIndex: number; endIndex: number }> = [];
     
-    // Enhanced sentence splitting regex that handles abbreviations and edge cases
-    const sentenceRegex = /[.!?]+(?=\s+[A-Z]|\s*$)/g;
+    // Enhanced sentence splitting regex that handles abbreviations and edge cases;
+    // Chinese full stops end a sentence wherever they are, no space or capital follows them
+    const sentenceRegex = /[.!?]+(?=\s+[A-Z]|\s*$)|[。！？]+/g;
     let lastIndex = 0;
     let match;
 
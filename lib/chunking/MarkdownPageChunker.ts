@@ -1,5 +1,7 @@
 import { readFileSync, readdirSync } from 'fs';
 import { join } from 'path';
+import { markdownTableExtractor, MarkdownTable, TableData } from './MarkdownTableExtractor';
+import { headingPathTracker, HeadingContext } from './HeadingPathTracker';
 
 export interface MarkdownDocument {
   docId: string;
@@ -16,6 +18,8 @@ export interface MarkdownDocument {
   filename: string;
 }
 
+export type PageChunkType = 'page' | 'section' | 'paragraph' | 'sentence' | 'window' | 'table';
+
 export interface PageChunk {
   id: string;
   pageNumber: number;
@@ -24,14 +28,23 @@ export interface PageChunk {
   metadata: {
     chunkId: string;
     level: number;
-    chunkType: 'page';
-    pageNumber: number;
+    chunkType: PageChunkType;
+    pageNumber: number; // page the chunk starts on, used for PDF deep-linking
+    endPageNumber?: number; // set when the chunk runs over into later pages
+    parentChunkId?: string;
+    childChunkIds?: string[];
     tokens: number;
     keywords: string[];
     startIndex: number;
     endIndex: number;
+    table?: TableData; // cells of table chunks, one object per row keyed by header
+    headingPath?: string[]; // headings active at the chunk, outermost first
+    sectionNumber?: string; // innermost numbered section, e.g. "3.2.1"
+    embeddingWarning?: string; // set by the ETL when the chunk was too long to embed in full
   };
+  headingContext?: HeadingContext; // page chunks only, lets sub-page chunkers work out their heading path
   embedding?: number[];
+  embeddingError?: string; // set by the ETL when embedding the chunk failed
 }
 
 export interface ProcessedDocument {
@@ -95,6 +108,19 @@ export class MarkdownPageChunker {
       
       // console.debug(`Parsing markdown file: ${filename}`);
       
+      return this.parseMarkdownContent(filename, content);
+    } catch (error) {
+      // console.error(`Error parsing markdown file: ${filename}`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Parse markdown in the `## Page N` format from another source, e.g. a converted PDF.
+   * The filename gives the doc id and creation date, as for files in the BRDR directory.
+   */
+  parseMarkdownContent(filename: string, content: string): MarkdownDocument | null {
+    try {
       const docId = this.extractDocIdFromFilename(filename);
       const {year: creationYear, month: creationMonth, day: creationDay} = this.extractCreationDateFromFilename(filename);
       const metadata = this.extractMetadata(content);
@@ -126,7 +152,7 @@ export class MarkdownPageChunker {
   processDocument(document: MarkdownDocument): ProcessedDocument {
     // console.debug(`Processing document: ${document.docId}`);
     
-    const chunks = document.pages.map((page, index) => ({
+    const chunks = document.pages.map((page, index) => page.metadata.chunkType === 'table' ? page : ({
       ...page,
       id: `${document.docId}_page_${page.pageNumber}`,
       metadata: {
@@ -149,7 +175,7 @@ export class MarkdownPageChunker {
         creationMonth: document.creationMonth,
         creationDay: document.creationDay,
         filename: document.filename,
-        totalPages: document.pages.length,
+        totalPages: new Set(document.pages.map(page => page.pageNumber)).size, // table chunks share their page
         source: 'BRDR'
       }
     };
@@ -246,6 +272,9 @@ export class MarkdownPageChunker {
     
     // First element is the header content before first page
     const headerContent = pageSplits[0];
+
+    // Headings carry over from page to page, starting with the ones in the header (the title)
+    let headingBase = headingPathTracker.apply([], headingPathTracker.extractMarkers(headerContent));
     
     // Process each page
     let validChunkCount = 0;
@@ -260,14 +289,23 @@ export class MarkdownPageChunker {
         continue;
       }
       
+      const markers = headingPathTracker.extractMarkers(pageContent);
+      const headingContext: HeadingContext = { base: headingBase, markers };
+      headingBase = headingPathTracker.apply(headingBase, markers);
+
+      // Tables become their own chunks, cleanText would flatten them into unreadable text
+      const tables = markdownTableExtractor.extractTables(pageContent);
+      const textContent = markdownTableExtractor.removeTables(pageContent, tables);
+
       // First clean the page content to remove unnecessary elements
-      const initialCleanContent = this.cleanPageContent(pageContent);
+      const initialCleanContent = this.cleanPageContent(textContent);
       
       // Then apply the more thorough text cleaning
       const cleanContent = this.cleanText(initialCleanContent);
+      headingPathTracker.locateInCleanText(markers, cleanContent, text => this.cleanText(text));
       
       // Skip chunks that would result in empty content after cleaning
-      if (!cleanContent.trim()) {
+      if (!cleanContent.trim() && tables.length === 0) {
         console.debug(`Skipping chunk with empty clean content for page ${pageNumber} in document ${docId}`);
         continue;
       }
@@ -278,29 +316,101 @@ export class MarkdownPageChunker {
         : content.length;
       
       validChunkCount++;
-      
-      pages.push({
-        id: `${docId}_page_${validChunkCount}`,
-        pageNumber: validChunkCount, // Use the valid chunk count instead of original page number
-        content: pageContent.trim(),
-        cleanContent,
-        metadata: {
-          chunkId: `${docId}_page_${validChunkCount}`,
-          level: 1,
-          chunkType: 'page',
-          pageNumber: validChunkCount,
-          tokens: this.estimateTokens(cleanContent),
-          keywords: this.extractKeywords(cleanContent),
-          startIndex,
-          endIndex
-        }
-      });
+
+      if (cleanContent.trim()) {
+        pages.push({
+          id: `${docId}_page_${validChunkCount}`,
+          pageNumber: validChunkCount, // Use the valid chunk count instead of original page number
+          content: pageContent.trim(),
+          cleanContent,
+          metadata: {
+            chunkId: `${docId}_page_${validChunkCount}`,
+            level: 1,
+            chunkType: 'page',
+            pageNumber: validChunkCount,
+            tokens: this.estimateTokens(cleanContent),
+            keywords: this.extractKeywords(cleanContent),
+            startIndex,
+            endIndex,
+            ...headingPathTracker.toMetadata(this.getPageHeadingPath(headingContext, pageContent))
+          },
+          headingContext
+        });
+      }
+
+      pages.push(...this.createTableChunks(tables, docId, validChunkCount, startIndex + `## Page ${pageNumber}`.length, headingContext));
     }
     
     // console.debug(`Extracted ${pages.length} valid pages from document ${docId}`);
     return pages;
   }
 
+  /**
+   * Heading path of a page: the headings carried over plus the ones the page opens with,
+   * before any body text
+   */
+  private getPageHeadingPath(headingContext: HeadingContext, pageContent: string) {
+    let previousEnd = 0;
+
+    for (const marker of headingContext.markers) {
+      if (this.cleanPageContent(pageContent.slice(previousEnd, marker.position)).trim()) {
+        break;
+      }
+      previousEnd = pageContent.indexOf('\n', marker.position) + 1 || pageContent.length;
+    }
+
+    return headingPathTracker.pathAtPosition(headingContext, previousEnd);
+  }
+
+  /**
+   * One chunk per table (or per group of rows for long tables), each with the header row repeated
+   * and the cells kept as structured rows in the metadata
+   */
+  private createTableChunks(
+    tables: MarkdownTable[],
+    docId: string,
+    pageNumber: number,
+    pageStartIndex: number,
+    headingContext: HeadingContext
+  ): PageChunk[] {
+    const chunks: PageChunk[] = [];
+
+    tables.forEach((table, tableIndex) => {
+      const groups = markdownTableExtractor.splitTable(table);
+
+      groups.forEach((group, groupIndex) => {
+        const id = `${docId}_page_${pageNumber}_table_${tableIndex + 1}${groups.length > 1 ? `_${groupIndex + 1}` : ''}`;
+
+        chunks.push({
+          id,
+          pageNumber,
+          content: group.markdown,
+          cleanContent: group.markdown,
+          metadata: {
+            chunkId: id,
+            level: 1,
+            chunkType: 'table',
+            pageNumber,
+            tokens: this.estimateTokens(group.markdown),
+            keywords: this.extractKeywords(group.markdown),
+            startIndex: pageStartIndex + table.startIndex,
+            endIndex: pageStartIndex + table.endIndex,
+            table: {
+              tableIndex: tableIndex + 1,
+              headers: table.headers,
+              rows: markdownTableExtractor.toRecords(table.headers, group.rows),
+              rowOffset: group.rowOffset,
+              totalRows: table.rows.length
+            },
+            ...headingPathTracker.toMetadata(headingPathTracker.pathAtPosition(headingContext, table.startIndex))
+          }
+        });
+      });
+    });
+
+    return chunks;
+  }
+
   /**
    * Clean page content by removing unnecessary elements
    */
@@ -345,25 +455,33 @@ export class MarkdownPageChunker {
     'shall', 'must', 'may', 'should', 'would', 'could', 'will', 'also', 'however', 'therefore'
   ]);
 
+  /**
+   * Characters that join Chinese words rather than carry meaning, not used in keywords
+   */
+  private cjkStopCharacters: Set<string> = new Set([
+    '的', '之', '及', '或', '與', '和', '在', '於', '是', '有', '為', '以', '而', '並', '其', '此', '該', '等', '將', '就', '對', '由', '中', '了', '不'
+  ]);
+
   /**
    * Cleans a string by removing all characters that are not
-   * alphanumeric, common punctuation, or whitespace.
+   * alphanumeric, Chinese, common punctuation, or whitespace.
    *
    * @param {string} text The input string to clean.
    * @returns {string} The cleaned string.
    */
   private cleanText(text: string): string {
     // Regex to match any character that is NOT a letter (a-z, A-Z),
-    // a digit (0-9), whitespace (\s), or a common punctuation mark.
+    // a digit (0-9), whitespace (\s), a common punctuation mark, or
+    // Chinese text with its punctuation (CJK symbols, ideographs, full-width forms).
     // The ^ at the start of the character class [^...] negates the set.
-    const cleanedText = text.replace(/[^a-zA-Z0-9\s.,!?'"-]/g, "");
+    const cleanedText = text.replace(/[^a-zA-Z0-9\s.,!?'"\u3000-\u303f\u4e00-\u9fff\uff00-\uffef-]/g, "");
     return cleanedText;
   }
 
   /**
    * Extract keywords from content
    */
-  private extractKeywords(content: string): string[] {
+  extractKeywords(content: string): string[] {
     // Simple keyword extraction based on frequency and relevance
     const words = content
       .toLowerCase()
@@ -377,9 +495,15 @@ export class MarkdownPageChunker {
         !/^\d+$/.test(word)
       );
     
+    // Chinese has no spaces between words: use the character pairs of every run of ideographs
+    const bigrams = (content.match(/[\u4e00-\u9fff]{2,}/g) || []).flatMap(run =>
+      Array.from({ length: run.length - 1 }, (_, index) => run.substring(index, index + 2))
+        .filter(bigram => !Array.from(bigram).some(character => this.cjkStopCharacters.has(character)))
+    );
+
     // Count word frequency
     const wordCounts: Map<string, number> = new Map();
-    words.forEach(word => {
+    [...words, ...bigrams].forEach(word => {
       wordCounts.set(word, (wordCounts.get(word) || 0) + 1);
     });
     
@@ -393,7 +517,7 @@ export class MarkdownPageChunker {
   /**
    * Estimate token count (rough approximation)
    */
-  private estimateTokens(text: string): number {
+  estimateTokens(text: string): number {
     // Simple estimation: ~4 characters per token for English
     return Math.ceil(text.length / 4);
   }
@@ -0,0 +1,166 @@
+export interface MarkdownTable {
+  headers: string[];
+  rows: string[][];
+  markdown: string;
+  startIndex: number;
+  endIndex: number;
+}
+
+// Structured form stored in the chunk metadata: one object per row, keyed by header
+export interface TableData {
+  tableIndex: number;
+  headers: string[];
+  rows: Record<string, string>[];
+  rowOffset: number; // index of the first row in the full table, tables can span several chunks
+  totalRows: number;
+}
+
+const TABLE_LINE = /^\s*\|.*\|\s*$/;
+const SEPARATOR_LINE = /^\s*\|?\s*:?-{3,}:?\s*(\|\s*:?-{3,}:?\s*)*\|?\s*$/;
+
+export class MarkdownTableExtractor {
+  /**
+   * Find the pipe tables in a markdown string. A table is a header row, a separator row
+   * (`|---|---|`) and any number of body rows.
+   */
+  extractTables(content: string): MarkdownTable[] {
+    const tables: MarkdownTable[] = [];
+    const lines = content.split('\n');
+
+    let offset = 0;
+    const lineOffsets = lines.map(line => {
+      const start = offset;
+      offset += line.length + 1;
+      return start;
+    });
+
+    let i = 0;
+    while (i < lines.length - 1) {
+      if (!TABLE_LINE.test(lines[i]) || !SEPARATOR_LINE.test(lines[i + 1])) {
+        i++;
+        continue;
+      }
+
+      const headers = this.splitRow(lines[i]);
+      let end = i + 2;
+      while (end < lines.length && TABLE_LINE.test(lines[end])) {
+        end++;
+      }
+
+      const rows = lines
+        .slice(i + 2, end)
+        .map(line => this.normaliseRow(this.splitRow(line), headers.length))
+        .filter(row => row.some(cell => cell.length > 0));
+
+      const startIndex = lineOffsets[i];
+      const endIndex = end < lines.length ? lineOffsets[end] : content.length;
+
+      tables.push({
+        headers: this.uniqueHeaders(headers),
+        rows,
+        markdown: content.slice(startIndex, endIndex).trim(),
+        startIndex,
+        endIndex
+      });
+
+      i = end;
+    }
+
+    return tables;
+  }
+
+  /**
+   * The content with its tables cut out
+   */
+  removeTables(content: string, tables: MarkdownTable[] = this.extractTables(content)): string {
+    let result = content;
+    for (const table of [...tables].sort((a, b) => b.startIndex - a.startIndex)) {
+      result = result.slice(0, table.startIndex) + '\n' + result.slice(table.endIndex);
+    }
+    return result;
+  }
+
+  /**
+   * Split a table into groups of rows that fit in maxTokens, each rendered as a markdown table
+   * with the header row repeated
+   */
+  splitTable(table: MarkdownTable, maxTokens: number = 512): { markdown: string; rowOffset: number; rows: string[][] }[] {
+    const header = this.renderRow(table.headers);
+    const separator = this.renderRow(table.headers.map(() => '---'));
+    const headerTokens = this.estimateTokens(`${header}\n${separator}`);
+
+    const groups: { markdown: string; rowOffset: number; rows: string[][] }[] = [];
+    let current: string[][] = [];
+    let currentTokens = headerTokens;
+    let rowOffset = 0;
+
+    const flush = () => {
+      const body = current.map(row => this.renderRow(row));
+      groups.push({ markdown: [header, separator, ...body].join('\n'), rowOffset, rows: current });
+      rowOffset += current.length;
+      current = [];
+      currentTokens = headerTokens;
+    };
+
+    for (const row of table.rows) {
+      const rowTokens = this.estimateTokens(this.renderRow(row));
+      if (current.length > 0 && currentTokens + rowTokens > maxTokens) {
+        flush();
+      }
+      current.push(row);
+      currentTokens += rowTokens;
+    }
+
+    if (current.length > 0 || groups.length === 0) {
+      flush();
+    }
+
+    return groups;
+  }
+
+  /**
+   * Rows as objects keyed by header, for the structured table JSON
+   */
+  toRecords(headers: string[], rows: string[][]): Record<string, string>[] {
+    return rows.map(row => Object.fromEntries(headers.map((header, index) => [header, row[index] ?? ''])));
+  }
+
+  private splitRow(line: string): string[] {
+    return line
+      .trim()
+      .replace(/^\|/, '')
+      .replace(/\|$/, '')
+      .split(/(?<!\\)\|/)
+      .map(cell => cell.replace(/\\\|/g, '|').replace(/<br\s*\/?>/gi, ' ').trim());
+  }
+
+  private normaliseRow(row: string[], width: number): string[] {
+    if (row.length >= width) {
+      return row.slice(0, width);
+    }
+    return [...row, ...Array(width - row.length).fill('')];
+  }
+
+  // Empty or repeated headers would collide as JSON keys
+  private uniqueHeaders(headers: string[]): string[] {
+    const seen = new Map<string, number>();
+    return headers.map((header, index) => {
+      const name = header || `Column ${index + 1}`;
+      const count = seen.get(name) || 0;
+      seen.set(name, count + 1);
+      return count === 0 ? name : `${name} (${count + 1})`;
+    });
+  }
+
+  private renderRow(cells: string[]): string {
+    return `| ${cells.map(cell => cell.replace(/\|/g, '\\|')).join(' | ')} |`;
+  }
+
+  private estimateTokens(text: string): number {
+    // Simple estimation: ~4 characters per token for English
+    return Math.ceil(text.length / 4);
+  }
+}
+
+// Export singleton instance
+export const markdownTableExtractor = new MarkdownTableExtractor();
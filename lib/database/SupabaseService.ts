@@ -1,5 +1,7 @@
 import { createClient, SupabaseClient } from '@supabase/supabase-js';
 import { DocumentChunk } from '../chunking/HierarchicalChunker';
+import type { TopicSubtopicItem, KeywordItem, AiTypeItem, ViewItem, RelatedDocItem, CrawledDocument } from '../../crawler/BRDRCrawler';
+import { BRDR_LANGUAGES } from '../utils/BRDRLanguages';
 
 import dotenv from 'dotenv';
 dotenv.config();
@@ -8,6 +10,8 @@ export interface DocumentMetadata {
   chunkId: string;
   pageNumber: number;
   chunkType: string;
+  headingPath?: string[];
+  sectionNumber?: string;
   // originalContent?: string;
   // level?: number;
   // tokens?: number;
@@ -22,6 +26,8 @@ export interface DatabaseDocument {
   content: string;
   source: string;
   embedding?: number[];
+  embedding_model?: string | null; // model the embedding was written with
+  embedding_dimension?: number | null;
   metadata?: DocumentMetadata;
   created_at?: string;
   doc_uuid?: string;
@@ -33,20 +39,63 @@ export interface DatabaseDocument {
   issue_date?: string;
   guideline_no?: string;
   supersession_date?: string;
+  consult_sts_code?: string; // consultation papers: status and the window comments are accepted in
+  consult_open_date?: string;
+  consult_cls_date?: string;
   keywords?: string[];
   topics?: string[];
   concepts?: string[];
   summary?: string;
   document_type?: string;
-  language?: string;
-  doc_topic_subtopic_list?: string[];
-  doc_keyword_list?: string[];
-  doc_ai_type_list?: string[];
-  doc_view_list?: string[];
-  directly_related_doc_list?: string[];
-  version_history_doc_list?: string[];
-  reference_doc_list?: string[];
-  superseded_doc_list?: string[];
+  language?: string; // 'en' or 'zh-Hant'
+  eng_doc_id?: string; // English and Traditional Chinese versions of the same document
+  chi_doc_id?: string;
+  doc_topic_subtopic_list?: TopicSubtopicItem[];
+  doc_keyword_list?: KeywordItem[];
+  doc_ai_type_list?: AiTypeItem[];
+  doc_view_list?: ViewItem[];
+  directly_related_doc_list?: RelatedDocItem[];
+  version_history_doc_list?: RelatedDocItem[];
+  reference_doc_list?: RelatedDocItem[];
+  superseded_doc_list?: RelatedDocItem[];
+  content_hash?: string; // hash of the ingested content and chunking settings
+  metadata_hash?: string; // hash of the BRDR API metadata
+  source_hash?: string | null; // hash of the converted PDF's bytes and the settings, null for markdown files
+}
+
+// What an incremental ETL run needs to know about a stored document
+export interface DocumentHashes {
+  id: string;
+  doc_id: string;
+  content_hash?: string;
+  metadata_hash?: string;
+  source_hash?: string | null;
+  language?: string; // documents are only removed in the languages a run crawled
+  supersession_date?: string; // superseded versions are kept for lineage, not removed
+}
+
+export type ETLRunStatus = 'running' | 'completed' | 'failed';
+
+// Checkpoints a document passes through in an ETL run
+export type ETLDocumentStatus = 'pending' | 'crawled' | 'chunked' | 'embedded' | 'stored' | 'failed';
+
+export interface ETLRun {
+  id: string;
+  status: ETLRunStatus;
+  options: Record<string, unknown>;
+  crawl_complete?: boolean; // every page of the API listing was fetched
+  error?: string | null;
+  started_at?: string;
+  finished_at?: string | null;
+}
+
+export interface ETLRunDocument {
+  run_id: string;
+  doc_id: string;
+  status: ETLDocumentStatus;
+  error?: string | null;
+  api_document?: CrawledDocument;
+  updated_at?: string;
 }
 
 export interface DatabaseChunk {
@@ -61,6 +110,77 @@ export interface DatabaseChunk {
   chunk_type?: string;
   keywords?: string[];
   related_chunks?: string[];
+  chunk_level?: number;
+  parent_chunk_id?: number | null; // chunk_id of the enclosing chunk in the same document
+  child_chunk_ids?: number[];
+  content_hash?: string; // hash of the embedded text, lets unchanged chunks keep their embedding
+  embedding_missing?: boolean; // embedding failed, to be backfilled by the repair job
+  embedding_error?: string | null;
+  embedding_model?: string | null; // model the embedding was written with
+  embedding_dimension?: number | null;
+}
+
+export type EmbeddingIndexStorage = 'inline' | 'side';
+export type EmbeddingIndexStatus = 'building' | 'ready' | 'active' | 'retired';
+
+// An embedding model chunks are indexed with; search uses the active one
+export interface EmbeddingIndex {
+  embedding_model: string;
+  provider: string;
+  embedding_dimension: number;
+  storage: EmbeddingIndexStorage; // inline: the embedding columns, side: brdr_chunk_embeddings
+  status: EmbeddingIndexStatus;
+  created_at?: string;
+  activated_at?: string | null;
+}
+
+// An entry of the persistent embedding cache
+export interface CachedEmbedding {
+  content_hash: string; // hash of model, dimension and embedded text
+  embedding_model: string;
+  embedding_dimension: number;
+  embedding: number[];
+}
+
+// A chunk embedding of a side index
+export interface ChunkIndexEmbedding {
+  chunk_row_id: string;
+  doc_id: string;
+  embedding_model: string;
+  embedding_dimension: number;
+  embedding: number[];
+  content_hash?: string | null;
+}
+
+// The enclosing chunk returned for a small-to-big hit
+export interface EnclosingChunk {
+  hit_id: string;
+  id: string;
+  doc_id: string;
+  chunk_id: number;
+  content: string;
+  metadata?: DocumentMetadata;
+  chunk_type: string;
+}
+
+export type DocumentRelationType = 'directly_related' | 'reference' | 'version_history' | 'superseded';
+
+export interface DocumentRelation {
+  id?: string;
+  source_doc_id: string;
+  target_doc_id: string;
+  relation_type: DocumentRelationType;
+  target_title?: string;
+  target_issue_date?: string;
+  created_at?: string;
+}
+
+export interface RelatedDocumentHit {
+  doc_id: string;
+  depth: number;
+  relation_type: DocumentRelationType;
+  direction: 'outgoing' | 'incoming';
+  via_doc_id: string;
 }
 
 export interface SearchResult {
@@ -91,20 +211,71 @@ export interface AdvancedSearchResult {
   is_original_match: boolean;
   original_chunk_id: number;
   position_offset: number;
+  chunk_position: number; // position among the document's chunks of the same chunk_type
+}
+
+// A run of adjacent chunks of one document built around one or more search hits
+export interface ContextPassage {
+  doc_id: string;
+  chunk_ids: number[]; // in document order
+  original_chunk_ids: number[]; // the hits the passage was built around
+  content: string; // chunk contents stitched in document order
+  chunks: AdvancedSearchResult[];
+}
+
+// A single row of a structured table chunk
+export interface TableRowMatch {
+  id: string;
+  doc_id: string;
+  chunk_id: number;
+  page_number: number;
+  headers: string[];
+  table_row: Record<string, string>;
+  match_score: number;
+}
+
+// A consultation paper and where it stands on the as-of date
+export interface ConsultationMatch {
+  id: string;
+  doc_id: string;
+  doc_long_title: string;
+  doc_type_desc: string;
+  topics: string[];
+  language: string;
+  consult_sts_code: string | null;
+  consult_open_date: string | null;
+  consult_cls_date: string | null;
+  consultation_status: ConsultationStatus;
+  days_until_close: number | null; // negative once the consultation has closed
+}
+
+// unknown when BRDR gives neither an open nor a closing date
+export type ConsultationStatus = 'upcoming' | 'open' | 'closed' | 'unknown';
+
+export type SearchTable = 'brdr_documents_data' | 'brdr_documents';
+
+export interface DocumentFilters {
+  docTypes?: string[]; // doc_type_code or doc_type_desc, e.g. "Circular"
+  topics?: string[]; // partial match on "Topic: Subtopic"
+  guidelineNos?: string[];
+  versionCodes?: string[];
+  docViews?: string[];
+  excludeSuperseded?: boolean;
+  docIds?: string[];
+  chunkTypes?: string[]; // chunk rows of these types only (brdr_documents_data)
+  languages?: string[]; // documents in these languages only, 'en' or 'zh-Hant'
 }
 
 export interface SearchOptions {
   similarity_threshold?: number;
   match_count?: number;
-  search_table?: string;
+  search_table?: SearchTable;
   keyword_weight?: number;
   vector_weight?: number;
-  start_year?: number;
-  start_month?: number;
-  start_day?: number;
-  end_year?: number;
-  end_month?: number;
-  end_day?: number;
+  dateFrom?: Date; // inclusive, matched against the document issue date
+  dateTo?: Date; // inclusive
+  filters?: DocumentFilters;
+  embedding_model?: string; // side index to search, the inline embedding columns when omitted
 }
 
 export interface AdvancedSearchOptions {
@@ -146,6 +317,51 @@ export class SupabaseService {
   }
 
 
+  /**
+   * Format a date as the YYYY-MM-DD string the search RPCs expect for their DATE parameters
+   */
+  private toSqlDate(date?: Date): string | undefined {
+    if (!date) {
+      return undefined;
+    }
+
+    const month = String(date.getMonth() + 1).padStart(2, '0');
+    const day = String(date.getDate()).padStart(2, '0');
+    return `${date.getFullYear()}-${month}-${day}`;
+  }
+
+  /**
+   * Convert document filters to the JSONB object brdr_document_matches_filters expects,
+   * leaving out empty filters so they do not restrict the search
+   */
+  private toSqlFilters(filters: DocumentFilters = {}): Record<string, string[] | boolean> {
+    const sqlFilters: Record<string, string[] | boolean> = {};
+    const lists: [keyof DocumentFilters, string][] = [
+      ['docTypes', 'doc_types'],
+      ['topics', 'topics'],
+      ['guidelineNos', 'guideline_nos'],
+      ['versionCodes', 'version_codes'],
+      ['docViews', 'doc_views'],
+      ['docIds', 'doc_ids'],
+      ['chunkTypes', 'chunk_types'],
+      ['languages', 'languages']
+    ];
+
+    for (const [key, sqlKey] of lists) {
+      const values = filters[key];
+      if (Array.isArray(values) && values.length > 0) {
+        sqlFilters[sqlKey] = values;
+      }
+    }
+
+    if (filters.excludeSuperseded) {
+      sqlFilters.exclude_superseded = true;
+    }
+
+    return sqlFilters;
+  }
+
+
   // Search Methods
   
   /**
@@ -157,7 +373,10 @@ export class SupabaseService {
   ): Promise<SearchResult[] | null | undefined> {
     const {
       match_count = 10,
-      search_table = 'brdr_documents_data'
+      search_table = 'brdr_documents_data',
+      dateFrom,
+      dateTo,
+      filters
     } = options;
 
     try {
@@ -167,7 +386,10 @@ export class SupabaseService {
       const { data, error } = await this.supabase.rpc('full_text_search', {
         query_text: queryText,
         match_count,
-        search_table
+        search_table,
+        date_from: this.toSqlDate(dateFrom),
+        date_to: this.toSqlDate(dateTo),
+        filters: this.toSqlFilters(filters)
       });
 
       console.log("full text search data:", data);
@@ -205,12 +427,10 @@ export class SupabaseService {
       similarity_threshold,
       match_count,
       search_table,
-      start_year,
-      start_month,
-      start_day,
-      end_year,
-      end_month,
-      end_day 
+      dateFrom,
+      dateTo,
+      filters,
+      embedding_model
     } = options;
 
     try {
@@ -220,12 +440,10 @@ export class SupabaseService {
           search_table: search_table,
           query_embedding: queryEmbedding,
           similarity_threshold: similarity_threshold,
-          start_year: start_year,
-          start_month: start_month,
-          start_day: start_day,
-          end_year: end_year,
-          end_month: end_month,
-          end_day: end_day,
+          date_from: this.toSqlDate(dateFrom),
+          date_to: this.toSqlDate(dateTo),
+          filters: this.toSqlFilters(filters),
+          index_model: embedding_model ?? null,
           match_count
         });
 
@@ -265,7 +483,10 @@ export class SupabaseService {
   ): Promise<SearchResult[] | null | undefined> {
     const {
       match_count = 10,
-      search_table = 'brdr_documents_data'
+      search_table = 'brdr_documents_data',
+      dateFrom,
+      dateTo,
+      filters
     } = options;
 
     try {
@@ -275,7 +496,10 @@ export class SupabaseService {
         const { data, error } = await this.supabase.rpc('keyword_search', {
           query_text: queryText,
           match_count,
-          search_table
+          search_table,
+          date_from: this.toSqlDate(dateFrom),
+          date_to: this.toSqlDate(dateTo),
+          filters: this.toSqlFilters(filters)
         });
 
         // console.log("keyword search data:", data);
@@ -319,7 +543,12 @@ export class SupabaseService {
     const {
       match_count = 10,
       keyword_weight = 0.4,
-      vector_weight = 0.6
+      vector_weight = 0.6,
+      search_table = 'brdr_documents_data',
+      dateFrom,
+      dateTo,
+      filters,
+      embedding_model
     } = options;
 
     try {
@@ -331,7 +560,12 @@ export class SupabaseService {
           query_embedding: queryEmbedding,
           keyword_weight,
           vector_weight,
-          match_count
+          match_count,
+          search_table,
+          date_from: this.toSqlDate(dateFrom),
+          date_to: this.toSqlDate(dateTo),
+          filters: this.toSqlFilters(filters),
+          index_model: embedding_model ?? null
         });
 
         console.log("hybrid search data:", data);
@@ -366,6 +600,206 @@ export class SupabaseService {
   }
 
 
+  /**
+   * Expand hits with the chunks up to contextWindow positions before and after them among the chunks of
+   * the same document and chunk type. Overlapping windows are merged, so every chunk appears in exactly one
+   * passage; passages are returned in the order of their best-ranked hit.
+   */
+  async getChunkContext(
+    hits: SearchResult[],
+    contextWindow: number = 1
+  ): Promise<ContextPassage[]> {
+    if (hits.length === 0) {
+      return [];
+    }
+
+    try {
+      const { data, error } = await this.supabase.rpc('get_chunk_context', {
+        hit_ids: hits.map(hit => hit.id),
+        context_window: Math.max(0, contextWindow)
+      });
+
+      if (error) {
+        console.error('Chunk context error:', error);
+        return [];
+      }
+
+      const hitsById = new Map(hits.map(hit => [hit.id, hit]));
+      const chunks: AdvancedSearchResult[] = (data || []).map((item: AdvancedSearchResult) => {
+        const hit = hitsById.get(item.id);
+        return {
+          ...item,
+          similarity: hit?.similarity ?? 0,
+          keyword_match_score: hit?.match_score ?? 0,
+          combined_score: hit?.combined_score ?? 0
+        };
+      });
+
+      // Rows arrive ordered by doc_id, chunk_type, chunk_position: start a new passage at every gap
+      const passages: ContextPassage[] = [];
+      for (const chunk of chunks) {
+        const current = passages[passages.length - 1];
+        const previous = current?.chunks[current.chunks.length - 1];
+        const isAdjacent = previous
+          && previous.doc_id === chunk.doc_id
+          && previous.chunk_type === chunk.chunk_type
+          && chunk.chunk_position === previous.chunk_position + 1;
+
+        if (isAdjacent) {
+          current.chunks.push(chunk);
+          current.chunk_ids.push(chunk.chunk_id);
+        } else {
+          passages.push({ doc_id: chunk.doc_id, chunk_ids: [chunk.chunk_id], original_chunk_ids: [], content: '', chunks: [chunk] });
+        }
+      }
+
+      for (const passage of passages) {
+        passage.original_chunk_ids = passage.chunks.filter(chunk => chunk.is_original_match).map(chunk => chunk.chunk_id);
+        passage.content = passage.chunks.map(chunk => chunk.content).join('\n\n');
+      }
+
+      const bestRank = (passage: ContextPassage) => Math.min(
+        ...passage.chunks
+          .filter(chunk => chunk.is_original_match)
+          .map(chunk => hits.findIndex(hit => hit.id === chunk.id))
+      );
+
+      return passages.sort((a, b) => bestRank(a) - bestRank(b));
+    } catch (error) {
+      console.error('Chunk context RPC error:', error);
+      return [];
+    }
+  }
+
+
+  /**
+   * For every hit, the nearest enclosing chunk of the given type (e.g. the section around a
+   * matched sentence), keyed by hit id. Hits without such an ancestor map to themselves.
+   */
+  async getEnclosingChunks(
+    hitIds: string[],
+    chunkType: string = 'section'
+  ): Promise<Map<string, EnclosingChunk>> {
+    const enclosing = new Map<string, EnclosingChunk>();
+    if (hitIds.length === 0) {
+      return enclosing;
+    }
+
+    try {
+      const { data, error } = await this.supabase.rpc('get_enclosing_chunks', {
+        hit_ids: hitIds,
+        target_chunk_type: chunkType
+      });
+
+      if (error) {
+        console.error('Enclosing chunk lookup error:', error);
+        return enclosing;
+      }
+
+      for (const item of (data || []) as EnclosingChunk[]) {
+        enclosing.set(item.hit_id, item);
+      }
+
+      return enclosing;
+    } catch (error) {
+      console.error('Enclosing chunk RPC error:', error);
+      return enclosing;
+    }
+  }
+
+  /**
+   * Dimension of the embedding column of every table, keyed by table name
+   */
+  async getEmbeddingDimensions(): Promise<Map<string, number>> {
+    const dimensions = new Map<string, number>();
+
+    try {
+      const { data, error } = await this.supabase.rpc('get_embedding_dimensions');
+
+      if (error) {
+        console.error('Embedding dimension lookup error:', error);
+        return dimensions;
+      }
+
+      for (const row of (data || []) as { table_name: string; dimension: number }[]) {
+        dimensions.set(row.table_name, row.dimension);
+      }
+
+      return dimensions;
+    } catch (error) {
+      console.error('Embedding dimension RPC error:', error);
+      return dimensions;
+    }
+  }
+
+  /**
+   * Find the table rows (from table chunks) that contain the most query terms
+   */
+  async searchTableRows(
+    queryText: string,
+    options: { match_count?: number; filters?: DocumentFilters } = {}
+  ): Promise<TableRowMatch[]> {
+    const { match_count = 10, filters } = options;
+
+    try {
+      const { data, error } = await this.supabase.rpc('search_table_rows', {
+        query_text: queryText,
+        match_count,
+        filters: this.toSqlFilters(filters)
+      });
+
+      if (error) {
+        console.error('Table row search error:', error);
+        return [];
+      }
+
+      return data || [];
+    } catch (error) {
+      console.error('Table row search RPC error:', error);
+      return [];
+    }
+  }
+
+
+  /**
+   * List consultation papers by where they stand today: open ones by default, soonest closing first.
+   * closingWithinDays keeps only those closing in the next N days. Every paper is listed once, in
+   * `language` when it has a version in it; the filters match either language version.
+   */
+  async findConsultations(
+    options: {
+      status?: ConsultationStatus | 'all';
+      closingWithinDays?: number;
+      match_count?: number;
+      filters?: DocumentFilters;
+      asOf?: Date;
+      language?: string;
+    } = {}
+  ): Promise<ConsultationMatch[]> {
+    const { status = 'open', closingWithinDays, match_count = 20, filters, asOf, language = BRDR_LANGUAGES.eng } = options;
+
+    try {
+      const { data, error } = await this.supabase.rpc('find_consultations', {
+        status_filter: status,
+        closing_within_days: closingWithinDays ?? null,
+        match_count,
+        filters: this.toSqlFilters(filters),
+        as_of: this.toSqlDate(asOf) ?? null,
+        preferred_language: language
+      });
+
+      if (error) {
+        console.error('Consultation search error:', error);
+        return [];
+      }
+
+      return data || [];
+    } catch (error) {
+      console.error('Consultation search RPC error:', error);
+      return [];
+    }
+  }
+
   async testConnection(): Promise<boolean> {
     try {
       // Test connection by trying to access our tables
@@ -450,6 +884,50 @@ export class SupabaseService {
     }
   }
 
+  /**
+   * Insert chunks, overwriting the ones with the same doc_id and chunk_id
+   */
+  async upsertDocumentChunks(chunks: DatabaseChunk[]): Promise<boolean> {
+    try {
+      const { error } = await this.supabase
+        .from('brdr_documents_data')
+        .upsert(chunks, { onConflict: 'doc_id,chunk_id' });
+
+      if (error) {
+        console.error('Error upserting document chunks:', error);
+        return false;
+      }
+
+      return true;
+    } catch (error) {
+      console.error('Database batch upsert error:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Delete the chunks of a document past the given chunk_id, left over when a document shrinks
+   */
+  async deleteChunksAfter(docId: string, lastChunkId: number): Promise<boolean> {
+    try {
+      const { error } = await this.supabase
+        .from('brdr_documents_data')
+        .delete()
+        .eq('doc_id', docId)
+        .gt('chunk_id', lastChunkId);
+
+      if (error) {
+        console.error('Error deleting orphaned chunks:', error);
+        return false;
+      }
+
+      return true;
+    } catch (error) {
+      console.error('Database delete orphaned chunks error:', error);
+      return false;
+    }
+  }
+
   async upsertDocument(document: DatabaseDocument): Promise<string | null> {
     try {
       const { data, error } = await this.supabase
@@ -495,27 +973,736 @@ export class SupabaseService {
   }
 
 
-  
-  async getDocumentChunks(docId: string): Promise<DatabaseChunk[]> {
+  /**
+   * Update some columns of a stored document
+   */
+  async updateDocument(docId: string, fields: Partial<DatabaseDocument>): Promise<boolean> {
+    try {
+      const { error } = await this.supabase
+        .from('brdr_documents')
+        .update(fields)
+        .eq('doc_id', docId);
+
+      if (error) {
+        console.error('Error updating document:', error);
+        return false;
+      }
+
+      return true;
+    } catch (error) {
+      console.error('Database update error:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Content and metadata hashes of every stored document, keyed by doc_id
+   */
+  async getDocumentHashes(): Promise<Map<string, DocumentHashes>> {
+    const hashes = new Map<string, DocumentHashes>();
+    const pageSize = 1000;
+
+    try {
+      for (let from = 0; ; from += pageSize) {
+        const { data, error } = await this.supabase
+          .from('brdr_documents')
+          .select('id, doc_id, content_hash, metadata_hash, source_hash, language, supersession_date')
+          .order('doc_id')
+          .range(from, from + pageSize - 1);
+
+        if (error) {
+          console.error('Error fetching document hashes:', error);
+          return hashes;
+        }
+
+        for (const row of (data || []) as DocumentHashes[]) {
+          hashes.set(row.doc_id, row);
+        }
+
+        if (!data || data.length < pageSize) {
+          return hashes;
+        }
+      }
+    } catch (error) {
+      console.error('Database fetch hashes error:', error);
+      return hashes;
+    }
+  }
+
+  /**
+   * Fetch several documents at once, selecting only the given columns
+   */
+  async getDocumentsByDocIds(docIds: string[], columns: string = '*'): Promise<DatabaseDocument[]> {
+    if (docIds.length === 0) {
+      return [];
+    }
+
     try {
       const { data, error } = await this.supabase
-        .from('brdr_documents_data')
-        .select('*')
-        .eq('doc_id', docId)
-        .order('chunk_id');
+        .from('brdr_documents')
+        .select(columns)
+        .in('doc_id', docIds);
 
       if (error) {
-        console.error('Error fetching document chunks:', error);
+        console.error('Error fetching documents:', error);
         return [];
       }
 
-      return data || [];
+      return (data || []) as unknown as DatabaseDocument[];
     } catch (error) {
-      console.error('Database fetch chunks error:', error);
+      console.error('Database fetch error:', error);
       return [];
     }
   }
 
+  /**
+   * Newest issue_date stored for a language, as YYYY-MM-DD, or null when there are no documents
+   */
+  async getLatestIssueDate(language: string): Promise<string | null> {
+    try {
+      const { data, error } = await this.supabase
+        .from('brdr_documents')
+        .select('issue_date')
+        .eq('language', language)
+        .not('issue_date', 'is', null)
+        .order('issue_date', { ascending: false })
+        .limit(1);
+
+      if (error) {
+        console.error('Error fetching latest issue date:', error);
+        return null;
+      }
+
+      const issueDate = data?.[0]?.issue_date as string | undefined;
+      return issueDate ? issueDate.slice(0, 10) : null;
+    } catch (error) {
+      console.error('Database fetch error:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Find the documents that list the given document in their superseded_doc_list
+   */
+  async getSupersedingDocuments(docId: string): Promise<DatabaseDocument[]> {
+    try {
+      const { data, error } = await this.supabase
+        .from('brdr_documents')
+        .select('doc_id, doc_long_title, guideline_no, issue_date, supersession_date')
+        .filter('superseded_doc_list', 'cs', JSON.stringify([{ docId }]));
+
+      if (error) {
+        console.error('Error fetching superseding documents:', error);
+        return [];
+      }
+
+      return (data || []) as DatabaseDocument[];
+    } catch (error) {
+      console.error('Database fetch error:', error);
+      return [];
+    }
+  }
+
+  // Document Relation Methods
+
+  /**
+   * Replace all outgoing relations of a document with the given edges
+   */
+  async replaceDocumentRelations(sourceDocId: string, relations: DocumentRelation[]): Promise<boolean> {
+    try {
+      const { error: deleteError } = await this.supabase
+        .from('brdr_document_relations')
+        .delete()
+        .eq('source_doc_id', sourceDocId);
+
+      if (deleteError) {
+        console.error('Error deleting document relations:', deleteError);
+        return false;
+      }
+
+      if (relations.length === 0) {
+        return true;
+      }
+
+      const { error } = await this.supabase
+        .from('brdr_document_relations')
+        .upsert(relations, { onConflict: 'source_doc_id,target_doc_id,relation_type' });
+
+      if (error) {
+        console.error('Error inserting document relations:', error);
+        return false;
+      }
+
+      return true;
+    } catch (error) {
+      console.error('Database relations insert error:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Get the direct relations of a document
+   */
+  async getDocumentRelations(
+    docId: string,
+    options: {
+      direction?: 'outgoing' | 'incoming' | 'both';
+      relationTypes?: DocumentRelationType[];
+    } = {}
+  ): Promise<DocumentRelation[]> {
+    const { direction = 'both', relationTypes } = options;
+
+    try {
+      let query = this.supabase
+        .from('brdr_document_relations')
+        .select('*');
+
+      if (direction === 'outgoing') {
+        query = query.eq('source_doc_id', docId);
+      } else if (direction === 'incoming') {
+        query = query.eq('target_doc_id', docId);
+      } else {
+        query = query.or(`source_doc_id.eq.${docId},target_doc_id.eq.${docId}`);
+      }
+
+      if (relationTypes && relationTypes.length > 0) {
+        query = query.in('relation_type', relationTypes);
+      }
+
+      const { data, error } = await query;
+
+      if (error) {
+        console.error('Error fetching document relations:', error);
+        return [];
+      }
+
+      return data || [];
+    } catch (error) {
+      console.error('Database fetch relations error:', error);
+      return [];
+    }
+  }
+
+  /**
+   * All documents that list the given document in their reference list
+   */
+  async getReferencingDocuments(docId: string): Promise<DocumentRelation[]> {
+    return this.getDocumentRelations(docId, { direction: 'incoming', relationTypes: ['reference'] });
+  }
+
+  /**
+   * Walk the relation graph from a document, up to maxDepth hops
+   */
+  async traverseDocumentRelations(
+    docId: string,
+    options: {
+      relationTypes?: DocumentRelationType[];
+      maxDepth?: number;
+      followIncoming?: boolean;
+    } = {}
+  ): Promise<RelatedDocumentHit[]> {
+    const { relationTypes, maxDepth = 3, followIncoming = true } = options;
+
+    try {
+      const { data, error } = await this.supabase.rpc('traverse_document_relations', {
+        start_doc_id: docId,
+        relation_types: relationTypes && relationTypes.length > 0 ? relationTypes : null,
+        max_depth: maxDepth,
+        follow_incoming: followIncoming
+      });
+
+      if (error) {
+        console.error('Document relation traversal error:', error);
+        return [];
+      }
+
+      return data || [];
+    } catch (error) {
+      console.error('Document relation traversal RPC error:', error);
+      return [];
+    }
+  }
+
+  /**
+   * The version chain of a document: every earlier and later version reachable through
+   * version history and supersession edges, including the document itself, oldest first
+   */
+  async getVersionChain(docId: string): Promise<DatabaseDocument[]> {
+    const hits = await this.traverseDocumentRelations(docId, {
+      relationTypes: ['version_history', 'superseded'],
+      maxDepth: 10
+    });
+
+    const docIds = [docId, ...hits.map(hit => hit.doc_id)];
+    const documents = await this.getDocumentsByDocIds(
+      docIds,
+      'doc_id, doc_long_title, version_code, guideline_no, issue_date, supersession_date'
+    );
+
+    // Versions that were never ingested are still part of the chain, with whatever the edge knows
+    const known = new Set(documents.map(doc => doc.doc_id));
+    const missing = docIds.filter(id => !known.has(id));
+    if (missing.length > 0) {
+      const edges = await this.getDocumentRelations(docId, { direction: 'outgoing' });
+      for (const id of missing) {
+        const edge = edges.find(relation => relation.target_doc_id === id);
+        documents.push({
+          id: '',
+          doc_id: id,
+          content: '',
+          source: 'BRDRAPI',
+          doc_long_title: edge?.target_title,
+          issue_date: edge?.target_issue_date
+        });
+      }
+    }
+
+    return documents.sort((a, b) => (a.issue_date || '').localeCompare(b.issue_date || ''));
+  }
+
+  /**
+   * Chunks stored without an embedding because embedding them failed
+   */
+  async getChunksMissingEmbeddings(limit: number = 500): Promise<DatabaseChunk[]> {
+    try {
+      const { data, error } = await this.supabase
+        .from('brdr_documents_data')
+        .select('id, doc_id, document_id, chunk_id, content, metadata, embedding_error')
+        .eq('embedding_missing', true)
+        .order('doc_id')
+        .order('chunk_id')
+        .limit(limit);
+
+      if (error) {
+        console.error('Error fetching chunks missing embeddings:', error);
+        return [];
+      }
+
+      return data || [];
+    } catch (error) {
+      console.error('Database fetch missing embeddings error:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Store a backfilled chunk embedding and clear its missing flag
+   */
+  async updateChunkEmbedding(id: string, embedding: number[], embeddingModel?: string): Promise<boolean> {
+    try {
+      const { error } = await this.supabase
+        .from('brdr_documents_data')
+        .update({
+          embedding,
+          embedding_model: embeddingModel,
+          embedding_dimension: embedding.length,
+          embedding_missing: false,
+          embedding_error: null
+        })
+        .eq('id', id);
+
+      if (error) {
+        console.error('Error updating chunk embedding:', error);
+        return false;
+      }
+
+      return true;
+    } catch (error) {
+      console.error('Database update chunk embedding error:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Cached embeddings of a model, keyed by content hash
+   */
+  async getCachedEmbeddings(contentHashes: string[], embeddingModel: string): Promise<Map<string, number[]>> {
+    const embeddings = new Map<string, number[]>();
+    if (contentHashes.length === 0) {
+      return embeddings;
+    }
+
+    try {
+      const { data, error } = await this.supabase
+        .from('brdr_embedding_cache')
+        .select('content_hash, embedding')
+        .eq('embedding_model', embeddingModel)
+        .in('content_hash', contentHashes);
+
+      if (error) {
+        console.error('Error fetching cached embeddings:', error);
+        return embeddings;
+      }
+
+      for (const row of data || []) {
+        // pgvector columns come back as their text form, e.g. "[0.1,0.2]"
+        const embedding = typeof row.embedding === 'string' ? JSON.parse(row.embedding) : row.embedding;
+        embeddings.set(row.content_hash, embedding);
+      }
+
+      return embeddings;
+    } catch (error) {
+      console.error('Database fetch cached embeddings error:', error);
+      return embeddings;
+    }
+  }
+
+  async upsertCachedEmbeddings(entries: CachedEmbedding[]): Promise<boolean> {
+    try {
+      const { error } = await this.supabase
+        .from('brdr_embedding_cache')
+        .upsert(entries, { onConflict: 'content_hash,embedding_model' });
+
+      if (error) {
+        console.error('Error upserting cached embeddings:', error);
+        return false;
+      }
+
+      return true;
+    } catch (error) {
+      console.error('Database cached embeddings upsert error:', error);
+      return false;
+    }
+  }
+
+  async getEmbeddingIndexes(): Promise<EmbeddingIndex[]> {
+    try {
+      const { data, error } = await this.supabase
+        .from('brdr_embedding_indexes')
+        .select('*')
+        .order('created_at');
+
+      if (error) {
+        console.error('Error fetching embedding indexes:', error);
+        return [];
+      }
+
+      return data || [];
+    } catch (error) {
+      console.error('Database fetch embedding indexes error:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Register an embedding index, leaving an index that is already registered as it is
+   */
+  async registerEmbeddingIndex(index: EmbeddingIndex): Promise<boolean> {
+    try {
+      const { error } = await this.supabase
+        .from('brdr_embedding_indexes')
+        .upsert([index], { onConflict: 'embedding_model', ignoreDuplicates: true });
+
+      if (error) {
+        console.error('Error registering embedding index:', error);
+        return false;
+      }
+
+      return true;
+    } catch (error) {
+      console.error('Database register embedding index error:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Move an index from one status to another, e.g. building to ready once its build finished
+   */
+  async updateEmbeddingIndexStatus(embeddingModel: string, from: EmbeddingIndexStatus, to: EmbeddingIndexStatus): Promise<boolean> {
+    try {
+      const { error } = await this.supabase
+        .from('brdr_embedding_indexes')
+        .update({ status: to })
+        .eq('embedding_model', embeddingModel)
+        .eq('status', from);
+
+      if (error) {
+        console.error('Error updating embedding index status:', error);
+        return false;
+      }
+
+      return true;
+    } catch (error) {
+      console.error('Database update embedding index error:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Make an index the one search uses, retiring the previously active one in the same transaction
+   */
+  async activateEmbeddingIndex(embeddingModel: string): Promise<boolean> {
+    try {
+      const { error } = await this.supabase.rpc('activate_embedding_index', { index_model: embeddingModel });
+
+      if (error) {
+        console.error('Error activating embedding index:', error);
+        return false;
+      }
+
+      return true;
+    } catch (error) {
+      console.error('Embedding index activation RPC error:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Chunks a side index has not embedded yet, or whose content changed since
+   */
+  async getChunksMissingIndexEmbedding(
+    embeddingModel: string,
+    limit: number = 100,
+    excludeIds: string[] = []
+  ): Promise<Pick<DatabaseChunk, 'id' | 'doc_id' | 'chunk_id' | 'content' | 'metadata' | 'content_hash'>[]> {
+    try {
+      const { data, error } = await this.supabase.rpc('get_chunks_missing_index_embedding', {
+        index_model: embeddingModel,
+        max_count: limit,
+        exclude_ids: excludeIds
+      });
+
+      if (error) {
+        console.error('Error fetching chunks missing index embeddings:', error);
+        return [];
+      }
+
+      return data || [];
+    } catch (error) {
+      console.error('Missing index embedding RPC error:', error);
+      return [];
+    }
+  }
+
+  async upsertChunkIndexEmbeddings(embeddings: ChunkIndexEmbedding[]): Promise<boolean> {
+    try {
+      const { error } = await this.supabase
+        .from('brdr_chunk_embeddings')
+        .upsert(embeddings, { onConflict: 'chunk_row_id,embedding_model' });
+
+      if (error) {
+        console.error('Error upserting chunk index embeddings:', error);
+        return false;
+      }
+
+      return true;
+    } catch (error) {
+      console.error('Database chunk index embeddings upsert error:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Start an ETL run log and return its id
+   */
+  async createEtlRun(options: Record<string, unknown>, crawlComplete: boolean): Promise<string | null> {
+    try {
+      const { data, error } = await this.supabase
+        .from('brdr_etl_runs')
+        .insert([{ status: 'running', options, crawl_complete: crawlComplete }])
+        .select('id')
+        .single();
+
+      if (error) {
+        console.error('Error creating ETL run:', error);
+        return null;
+      }
+
+      return data.id;
+    } catch (error) {
+      console.error('Database ETL run insert error:', error);
+      return null;
+    }
+  }
+
+  async getEtlRun(runId: string): Promise<ETLRun | null> {
+    try {
+      const { data, error } = await this.supabase
+        .from('brdr_etl_runs')
+        .select('*')
+        .eq('id', runId)
+        .single();
+
+      if (error) {
+        if (error.code === 'PGRST116') {
+          return null;
+        }
+        console.error('Error fetching ETL run:', error);
+        return null;
+      }
+
+      return data;
+    } catch (error) {
+      console.error('Database ETL run fetch error:', error);
+      return null;
+    }
+  }
+
+  async updateEtlRun(runId: string, fields: Partial<ETLRun>): Promise<boolean> {
+    try {
+      const { error } = await this.supabase
+        .from('brdr_etl_runs')
+        .update(fields)
+        .eq('id', runId);
+
+      if (error) {
+        console.error('Error updating ETL run:', error);
+        return false;
+      }
+
+      return true;
+    } catch (error) {
+      console.error('Database ETL run update error:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Record the documents of a run, overwriting the checkpoints of documents already listed
+   */
+  async upsertEtlRunDocuments(documents: ETLRunDocument[]): Promise<boolean> {
+    try {
+      const batchSize = 500;
+      for (let i = 0; i < documents.length; i += batchSize) {
+        const { error } = await this.supabase
+          .from('brdr_etl_run_documents')
+          .upsert(documents.slice(i, i + batchSize), { onConflict: 'run_id,doc_id' });
+
+        if (error) {
+          console.error('Error upserting ETL run documents:', error);
+          return false;
+        }
+      }
+
+      return true;
+    } catch (error) {
+      console.error('Database ETL run documents upsert error:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Move a document of a run to another checkpoint, clearing the error unless one is given
+   */
+  async updateEtlRunDocumentStatus(runId: string, docId: string, status: ETLDocumentStatus, errorText?: string): Promise<boolean> {
+    try {
+      const { error } = await this.supabase
+        .from('brdr_etl_run_documents')
+        .update({ status, error: errorText ?? null, updated_at: new Date().toISOString() })
+        .eq('run_id', runId)
+        .eq('doc_id', docId);
+
+      if (error) {
+        console.error('Error updating ETL run document:', error);
+        return false;
+      }
+
+      return true;
+    } catch (error) {
+      console.error('Database ETL run document update error:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Documents of a run, optionally only those at the given checkpoints
+   */
+  async getEtlRunDocuments(runId: string, statuses?: ETLDocumentStatus[]): Promise<ETLRunDocument[]> {
+    const documents: ETLRunDocument[] = [];
+    const pageSize = 1000;
+
+    try {
+      for (let from = 0; ; from += pageSize) {
+        let query = this.supabase
+          .from('brdr_etl_run_documents')
+          .select('run_id, doc_id, status, error, api_document, updated_at')
+          .eq('run_id', runId);
+
+        if (statuses && statuses.length > 0) {
+          query = query.in('status', statuses);
+        }
+
+        const { data, error } = await query
+          .order('doc_id')
+          .range(from, from + pageSize - 1);
+
+        // A partial list would make a resumed run treat the missing documents as removed
+        if (error) {
+          console.error('Error fetching ETL run documents:', error);
+          return [];
+        }
+
+        documents.push(...((data || []) as ETLRunDocument[]));
+
+        if (!data || data.length < pageSize) {
+          return documents;
+        }
+      }
+    } catch (error) {
+      console.error('Database ETL run documents fetch error:', error);
+      return [];
+    }
+  }
+
+  async getDocumentChunks(docId: string): Promise<DatabaseChunk[]> {
+    try {
+      const { data, error } = await this.supabase
+        .from('brdr_documents_data')
+        .select('*')
+        .eq('doc_id', docId)
+        .order('chunk_id');
+
+      if (error) {
+        console.error('Error fetching document chunks:', error);
+        return [];
+      }
+
+      return data || [];
+    } catch (error) {
+      console.error('Database fetch chunks error:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Stored chunk embeddings of a document keyed by chunk content hash
+   */
+  async getChunkEmbeddingsByHash(docId: string, embeddingModel?: string): Promise<Map<string, number[]>> {
+    const embeddings = new Map<string, number[]>();
+
+    try {
+      let query = this.supabase
+        .from('brdr_documents_data')
+        .select('content_hash, embedding')
+        .eq('doc_id', docId)
+        .not('content_hash', 'is', null)
+        .not('embedding', 'is', null);
+
+      // Embeddings of another model cannot be reused
+      if (embeddingModel) {
+        query = query.eq('embedding_model', embeddingModel);
+      }
+
+      const { data, error } = await query;
+
+      if (error) {
+        console.error('Error fetching chunk embeddings:', error);
+        return embeddings;
+      }
+
+      for (const row of data || []) {
+        // pgvector columns come back as their text form, e.g. "[0.1,0.2]"
+        const embedding = typeof row.embedding === 'string' ? JSON.parse(row.embedding) : row.embedding;
+        embeddings.set(row.content_hash, embedding);
+      }
+
+      return embeddings;
+    } catch (error) {
+      console.error('Database fetch chunk embeddings error:', error);
+      return embeddings;
+    }
+  }
+
   async deleteDocument(docId: string): Promise<boolean> {
     try {
       const { error } = await this.supabase
@@ -0,0 +1,82 @@
+import { createHash } from 'crypto';
+
+/**
+ * Embeddings keyed by a hash of model, dimension and text: an in-memory LRU for chat queries,
+ * and the brdr_embedding_cache table for chunk texts so re-ingesting unchanged text costs nothing
+ */
+export class EmbeddingCache {
+  private readonly entries = new Map<string, number[]>();
+
+  constructor(private readonly maxEntries: number = 1000) {}
+
+  key(model: string, dimension: number, text: string): string {
+    return createHash('sha256').update(`${model}\n${dimension}\n${text}`).digest('hex');
+  }
+
+  get(key: string): number[] | undefined {
+    const embedding = this.entries.get(key);
+    if (embedding) {
+      // Re-insert so Map order stays least recently used first
+      this.entries.delete(key);
+      this.entries.set(key, embedding);
+    }
+    return embedding;
+  }
+
+  set(key: string, embedding: number[]): void {
+    this.entries.delete(key);
+    this.entries.set(key, embedding);
+
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value as string;
+      this.entries.delete(oldest);
+    }
+  }
+
+  /**
+   * Embeddings stored for the keys, from the persistent cache
+   */
+  async getPersistent(keys: string[], model: string): Promise<Map<string, number[]>> {
+    try {
+      const supabaseService = await this.loadSupabaseService();
+      return await supabaseService.getCachedEmbeddings([...new Set(keys)], model);
+    } catch (error) {
+      console.warn('Persistent embedding cache unavailable:', error);
+      return new Map();
+    }
+  }
+
+  async setPersistent(model: string, embeddings: Map<string, number[]>): Promise<void> {
+    if (embeddings.size === 0) return;
+
+    // The cache only saves work, a failed write is not an error for the caller
+    try {
+      const supabaseService = await this.loadSupabaseService();
+      const success = await supabaseService.upsertCachedEmbeddings(Array.from(embeddings.entries()).map(([key, embedding]) => ({
+        content_hash: key,
+        embedding_model: model,
+        embedding_dimension: embedding.length,
+        embedding
+      })));
+
+      if (!success) {
+        console.warn(`Could not store ${embeddings.size} embeddings in the persistent cache`);
+      }
+    } catch (error) {
+      console.warn('Persistent embedding cache unavailable:', error);
+    }
+  }
+
+  clear(): void {
+    this.entries.clear();
+  }
+
+  // Loaded on first use, so query embedding (memory cache only) works without a database configured
+  private async loadSupabaseService() {
+    const { supabaseService } = await import('../database/SupabaseService');
+    return supabaseService;
+  }
+}
+
+// Export singleton instance
+export const embeddingCache = new EmbeddingCache();
@@ -0,0 +1,94 @@
+import { embeddingService, EmbeddingService } from './EmbeddingService';
+import { EmbeddingProviderName } from './EmbeddingProviderRegistry';
+import { supabaseService, EmbeddingIndex } from '../database/SupabaseService';
+
+export interface QueryEmbedding {
+  embedding: number[];
+  index: EmbeddingIndex | null; // null: no index registered, the configured model and the inline columns
+  searchModel?: string; // pass as SearchOptions.embedding_model, set for side indexes only
+}
+
+/**
+ * Picks the embedding index search runs against. The query is embedded with the index's own model
+ * and searched in that index, so activating another index switches both at once.
+ */
+export class EmbeddingIndexManager {
+  private activeIndex: { index: EmbeddingIndex | null; loadedAt: number } | null = null;
+  private readonly services = new Map<string, EmbeddingService>();
+  private readonly cacheTtlMs = 30_000; // other server instances pick up an activation within this time
+
+  /**
+   * The active index, cached for a short while
+   */
+  async getActiveIndex(): Promise<EmbeddingIndex | null> {
+    if (this.activeIndex && Date.now() - this.activeIndex.loadedAt < this.cacheTtlMs) {
+      return this.activeIndex.index;
+    }
+
+    const indexes = await supabaseService.getEmbeddingIndexes();
+    const index = indexes.find(item => item.status === 'active') || null;
+    this.activeIndex = { index, loadedAt: Date.now() };
+    return index;
+  }
+
+  /**
+   * Embed a query for search, with the given index (to evaluate a model before switching) or the active one
+   */
+  async embedQuery(text: string, embeddingModel?: string): Promise<QueryEmbedding> {
+    const index = embeddingModel ? await this.findIndex(embeddingModel) : await this.getActiveIndex();
+    const result = await this.getEmbeddingService(index).generateEmbedding(text);
+
+    return {
+      embedding: result.embedding,
+      index,
+      searchModel: index?.storage === 'side' ? index.embedding_model : undefined
+    };
+  }
+
+  /**
+   * Switch search to another index
+   */
+  async activate(embeddingModel: string): Promise<boolean> {
+    const success = await supabaseService.activateEmbeddingIndex(embeddingModel);
+    this.activeIndex = null;
+
+    if (success) {
+      console.log(`Search now uses embedding index ${embeddingModel}`);
+    }
+    return success;
+  }
+
+  /**
+   * Embedding service producing vectors for an index; the configured one when there is no index
+   */
+  getEmbeddingService(index: EmbeddingIndex | null): EmbeddingService {
+    if (!index || index.embedding_model === embeddingService.getModel()) {
+      return embeddingService;
+    }
+
+    let service = this.services.get(index.embedding_model);
+    if (!service) {
+      service = new EmbeddingService({
+        provider: index.provider as EmbeddingProviderName,
+        model: index.embedding_model,
+        dimension: index.embedding_dimension
+      });
+      this.services.set(index.embedding_model, service);
+    }
+    return service;
+  }
+
+  private async findIndex(embeddingModel: string): Promise<EmbeddingIndex | null> {
+    const indexes = await supabaseService.getEmbeddingIndexes();
+    const index = indexes.find(item => item.embedding_model === embeddingModel);
+
+    if (!index) {
+      console.warn(`Embedding index ${embeddingModel} not found, using the active index`);
+      return this.getActiveIndex();
+    }
+    return index;
+  }
+}
+
+// Export singleton instance
+export const embeddingIndexManager = new EmbeddingIndexManager();
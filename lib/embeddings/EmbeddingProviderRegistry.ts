@@ -0,0 +1,121 @@
+import type { EmbeddingModel } from 'ai';
+import { azure } from '@ai-sdk/azure';
+import { openai } from '@ai-sdk/openai';
+import { google } from '@ai-sdk/google';
+import { TransformersEmbeddingModel } from './TransformersEmbeddingModel';
+import { EstimatedTokenCounter, TokenCounter, TransformersTokenCounter } from './TokenCounter';
+
+import dotenv from 'dotenv';
+dotenv.config();
+
+export type EmbeddingProviderName = 'azure' | 'openai' | 'google' | 'local';
+
+export interface EmbeddingProviderConfig {
+  provider: EmbeddingProviderName;
+  model: string;
+  dimension: number;
+  maxInputTokens?: number; // overrides the provider's input limit, for models with another limit
+}
+
+type ProviderOptions = Record<string, Record<string, number>>;
+
+export interface EmbeddingProviderDefinition {
+  defaultModel: string;
+  defaultDimension: number;
+  createModel: (model: string) => EmbeddingModel<string>;
+  maxInputTokens: number; // longest input the default model embeds in full
+  // Counts tokens with the model's tokenizer; providers without one are estimated
+  createTokenCounter?: (model: string) => TokenCounter;
+  // Options asking the provider for vectors of the configured size, for models that can shorten them
+  dimensionOptions?: (dimension: number) => ProviderOptions;
+}
+
+export interface EmbeddingProviderInstance {
+  model: EmbeddingModel<string>;
+  providerOptions?: ProviderOptions;
+  maxInputTokens: number;
+  tokenCounter: TokenCounter;
+}
+
+export class EmbeddingProviderRegistry {
+  private readonly providers = new Map<EmbeddingProviderName, EmbeddingProviderDefinition>([
+    ['azure', {
+      defaultModel: 'text-embedding-3-small',
+      defaultDimension: 1536,
+      createModel: model => azure.textEmbedding(model),
+      maxInputTokens: 8191,
+      dimensionOptions: dimension => ({ openai: { dimensions: dimension } })
+    }],
+    ['openai', {
+      defaultModel: 'text-embedding-3-small',
+      defaultDimension: 1536,
+      createModel: model => openai.textEmbedding(model),
+      maxInputTokens: 8191,
+      dimensionOptions: dimension => ({ openai: { dimensions: dimension } })
+    }],
+    ['google', {
+      defaultModel: 'text-embedding-004',
+      defaultDimension: 768,
+      createModel: model => google.textEmbedding(model),
+      maxInputTokens: 2048,
+      dimensionOptions: dimension => ({ google: { outputDimensionality: dimension } })
+    }],
+    ['local', {
+      // Multilingual, so English and Chinese text land in the same vector space
+      defaultModel: 'Xenova/paraphrase-multilingual-MiniLM-L12-v2',
+      defaultDimension: 384,
+      createModel: model => new TransformersEmbeddingModel(model),
+      maxInputTokens: 128, // sentence-transformers max_seq_length; longer inputs are cut off by the model
+      createTokenCounter: model => new TransformersTokenCounter(model)
+    }]
+  ]);
+
+  register(name: EmbeddingProviderName, definition: EmbeddingProviderDefinition): void {
+    this.providers.set(name, definition);
+  }
+
+  /**
+   * Provider, model, dimension and input limit from EMBEDDING_PROVIDER, EMBEDDING_MODEL, EMBEDDING_DIMENSION
+   * and EMBEDDING_MAX_INPUT_TOKENS, falling back to the provider's defaults (the local multilingual MiniLM model, matching the VECTOR(384) columns)
+   */
+  resolveConfig(overrides: Partial<EmbeddingProviderConfig> = {}): EmbeddingProviderConfig {
+    const provider = overrides.provider || (process.env.EMBEDDING_PROVIDER as EmbeddingProviderName | undefined) || 'local';
+    const definition = this.getDefinition(provider);
+
+    // EMBEDDING_MODEL / EMBEDDING_DIMENSION describe the configured provider, not an overridden one
+    const useEnv = !overrides.provider || overrides.provider === process.env.EMBEDDING_PROVIDER;
+    const envDimension = useEnv && process.env.EMBEDDING_DIMENSION ? Number(process.env.EMBEDDING_DIMENSION) : undefined;
+    const envMaxInputTokens = useEnv && process.env.EMBEDDING_MAX_INPUT_TOKENS ? Number(process.env.EMBEDDING_MAX_INPUT_TOKENS) : undefined;
+
+    return {
+      provider,
+      model: overrides.model || (useEnv ? process.env.EMBEDDING_MODEL : undefined) || definition.defaultModel,
+      dimension: overrides.dimension || envDimension || definition.defaultDimension,
+      maxInputTokens: overrides.maxInputTokens || envMaxInputTokens || definition.maxInputTokens
+    };
+  }
+
+  create(config: EmbeddingProviderConfig): EmbeddingProviderInstance {
+    const definition = this.getDefinition(config.provider);
+
+    return {
+      model: definition.createModel(config.model),
+      providerOptions: definition.dimensionOptions && config.dimension !== definition.defaultDimension
+        ? definition.dimensionOptions(config.dimension)
+        : undefined,
+      maxInputTokens: config.maxInputTokens || definition.maxInputTokens,
+      tokenCounter: definition.createTokenCounter ? definition.createTokenCounter(config.model) : new EstimatedTokenCounter()
+    };
+  }
+
+  private getDefinition(name: EmbeddingProviderName): EmbeddingProviderDefinition {
+    const definition = this.providers.get(name);
+    if (!definition) {
+      throw new Error(`Unknown embedding provider "${name}", expected one of: ${Array.from(this.providers.keys()).join(', ')}`);
+    }
+    return definition;
+  }
+}
+
+// Export singleton instance
+export const embeddingProviderRegistry = new EmbeddingProviderRegistry();
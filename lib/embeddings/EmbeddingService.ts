@@ -1,30 +1,78 @@
-import { embed, embedMany } from 'ai';
-import { azure } from '@ai-sdk/azure';
+import { embed, embedMany, APICallError, RetryError } from 'ai';
+import { embeddingCache } from './EmbeddingCache';
+import { embeddingProviderRegistry, EmbeddingProviderConfig, EmbeddingProviderInstance, EmbeddingProviderName } from './EmbeddingProviderRegistry';
+import { TokenCounter } from './TokenCounter';
 
 export interface EmbeddingResult {
   embedding: number[];
   dimension: number;
   model: string;
   timestamp: string;
+  cached?: boolean; // served from the embedding cache, no provider call
+  inputTokens?: number; // tokens in the input text, counted or estimated for the model
+  windows?: number; // input windows embedded and pooled into this vector, more than 1 for long inputs
+  truncated?: boolean; // the input was longer than maxInputWindows windows and its tail was not embedded
 }
 
+// How an input text is embedded: one window, or several whose vectors are pooled
+export interface EmbeddingInput {
+  windows: string[];
+  windowTokens: number[];
+  inputTokens: number;
+  truncated: boolean;
+}
+
+// One entry per input text of a batch: the embedding, or why there is none
+export interface BatchEmbeddingItem {
+  index: number; // position of the text in the batch
+  result: EmbeddingResult | null;
+  error?: string;
+}
+
+export interface RetryOptions {
+  maxRetries: number;
+  baseDelayMs: number; // doubled on every attempt, with full jitter
+  maxDelayMs: number;
+}
+
+const DEFAULT_RETRY_OPTIONS: RetryOptions = {
+  maxRetries: 3,
+  baseDelayMs: 500,
+  maxDelayMs: 8000
+};
+
+// Inputs longer than this many model windows are truncated
+const MAX_INPUT_WINDOWS = 8;
+
 export class EmbeddingService {
   private static instance: EmbeddingService;
+  private readonly provider: EmbeddingProviderName;
   private readonly model: string;
   private readonly dimension: number;
-  private embeddingModel;
+  private embeddingModel: EmbeddingProviderInstance['model'];
+  private providerOptions: EmbeddingProviderInstance['providerOptions'];
+  private readonly maxInputTokens: number;
+  private readonly tokenCounter: TokenCounter;
   private isInitialized: boolean = false;
+  private retryOptions: RetryOptions = DEFAULT_RETRY_OPTIONS;
+
+  constructor(config: Partial<EmbeddingProviderConfig> = {}) {
+    const resolved = embeddingProviderRegistry.resolveConfig(config);
+    this.provider = resolved.provider;
+    this.model = resolved.model;
+    this.dimension = resolved.dimension;
 
-  constructor(modelName: string = 'text-embedding-3-small', dimension: number = 1536) {
-    this.model = modelName;
-    this.dimension = dimension;
-    this.embeddingModel = azure.textEmbedding(modelName);
+    const { model, providerOptions, maxInputTokens, tokenCounter } = embeddingProviderRegistry.create(resolved);
+    this.embeddingModel = model;
+    this.providerOptions = providerOptions;
+    this.maxInputTokens = maxInputTokens;
+    this.tokenCounter = tokenCounter;
     this.isInitialized = true;
   }
 
-  static getInstance(model?: string, dimension?: number): EmbeddingService {
+  static getInstance(config?: Partial<EmbeddingProviderConfig>): EmbeddingService {
     if (!EmbeddingService.instance) {
-      EmbeddingService.instance = new EmbeddingService(model, dimension);
+      EmbeddingService.instance = new EmbeddingService(config);
     }
     return EmbeddingService.instance;
   }
@@ -33,79 +81,350 @@ export class EmbeddingService {
     try {
       // Clean and prepare text
       const cleanText = this.preprocessText(text);
-      
-      // Generate embedding using AI SDK
-      const { embedding, usage } = await embed({
-        model: this.embeddingModel,
-        value: cleanText,
-      });
 
-      // Validate embedding dimension
-      if (embedding.length !== this.dimension) {
-        console.warn(`Expected dimension ${this.dimension}, got ${embedding.length}`);
+      // Repeated questions are answered from the in-memory cache
+      const cacheKey = embeddingCache.key(this.model, this.dimension, cleanText);
+      const cached = embeddingCache.get(cacheKey);
+      const input = await this.prepareInput(cleanText);
+      if (cached) {
+        return { ...this.toResult(cached), ...this.describeInput(input), cached: true };
       }
+      
+      // Generate embedding using AI SDK
+      const embedding = input.windows.length === 1
+        ? (await this.withRetry('embedding', () => embed({
+          model: this.embeddingModel,
+          value: input.windows[0],
+          providerOptions: this.providerOptions,
+          maxRetries: 0, // retried here, with backoff
+        }))).embedding
+        : this.poolWindows((await this.withRetry(`embedding of ${input.windows.length} windows`, () => embedMany({
+          model: this.embeddingModel,
+          values: input.windows,
+          providerOptions: this.providerOptions,
+          maxRetries: 0,
+        }))).embeddings, input.windowTokens);
 
-      return {
-        embedding,
-        dimension: embedding.length,
-        model: this.model,
-        timestamp: new Date().toISOString(),
-      };
+      const result = { ...this.toResult(embedding), ...this.describeInput(input) };
+      embeddingCache.set(cacheKey, embedding);
+      return result;
     } catch (error) {
       console.error('Error generating embedding:', error);
       throw new Error(`Failed to generate embedding: ${error instanceof Error ? error.message : String(error)}`);
     }
   }
 
-  async generateBatchEmbeddings(texts: string[]): Promise<EmbeddingResult[]> {
+  /**
+   * Embed several texts. A batch that still fails after its retries is split in half and
+   * each half is tried again, so one bad text only costs its own embedding.
+   * Texts longer than the model's input limit are embedded in windows whose vectors are pooled.
+   *
+   * With `persistentCache`, texts already in the brdr_embedding_cache table are not sent to the
+   * provider, and new embeddings are added to it.
+   *
+   * @returns One item per text, in input order, with either a result or an error
+   */
+  async generateBatchEmbeddings(texts: string[], options: { persistentCache?: boolean } = {}): Promise<BatchEmbeddingItem[]> {
+    // Clean and prepare texts
+    const cleanTexts = texts.map(text => this.preprocessText(text));
+    const inputs: EmbeddingInput[] = [];
+    for (const text of cleanTexts) {
+      inputs.push(await this.prepareInput(text));
+    }
+
+    if (!options.persistentCache) {
+      return this.embedInputs(inputs);
+    }
+
+    const keys = cleanTexts.map(text => embeddingCache.key(this.model, this.dimension, text));
+    const cached = await embeddingCache.getPersistent(keys, this.model);
+
+    const items: BatchEmbeddingItem[] = [];
+    const missing: number[] = [];
+    keys.forEach((key, index) => {
+      const embedding = cached.get(key);
+      if (embedding) {
+        items[index] = { index, result: { ...this.toResult(embedding), ...this.describeInput(inputs[index]), cached: true } };
+      } else {
+        missing.push(index);
+      }
+    });
+
+    if (missing.length > 0) {
+      const embedded = await this.embedInputs(missing.map(index => inputs[index]));
+      const newEntries = new Map<string, number[]>();
+
+      for (const item of embedded) {
+        const index = missing[item.index];
+        items[index] = { ...item, index };
+        if (item.result) {
+          newEntries.set(keys[index], item.result.embedding);
+        }
+      }
+
+      await embeddingCache.setPersistent(this.model, newEntries);
+    }
+
+    console.log(`Embedded ${missing.length} of ${texts.length} texts, ${texts.length - missing.length} from the cache`);
+    return items;
+  }
+
+  /**
+   * Embed the windows of every input in one batch, then pool each input's window vectors
+   */
+  private async embedInputs(inputs: EmbeddingInput[]): Promise<BatchEmbeddingItem[]> {
+    const owners = inputs.flatMap((input, index) => input.windows.map(() => index));
+    const embedded = await this.embedBatch(inputs.flatMap(input => input.windows), 0);
+
+    return inputs.map((input, index) => {
+      const windowItems = embedded.filter(item => owners[item.index] === index);
+      const failed = windowItems.find(item => !item.result);
+      if (failed) {
+        return { index, result: null, error: failed.error };
+      }
+
+      const vectors = windowItems.map(item => (item.result as EmbeddingResult).embedding);
+      try {
+        const embedding = vectors.length === 1 ? vectors[0] : this.poolWindows(vectors, input.windowTokens);
+        return { index, result: { ...this.toResult(embedding), ...this.describeInput(input) } };
+      } catch (error) {
+        return { index, result: null, error: error instanceof Error ? error.message : String(error) };
+      }
+    });
+  }
+
+  private async embedBatch(texts: string[], offset: number): Promise<BatchEmbeddingItem[]> {
+    if (texts.length === 0) {
+      return [];
+    }
+
     try {
-      // Clean and prepare texts
-      const cleanTexts = texts.map(text => this.preprocessText(text));
-      
       // Generate embeddings using AI SDK
-      const { embeddings, usage } = await embedMany({
+      const { embeddings } = await this.withRetry(`batch of ${texts.length}`, () => embedMany({
         model: this.embeddingModel,
-        values: cleanTexts,
-      });
-
-      // Create result objects
-      return embeddings.map(embedding => ({
-        embedding,
-        dimension: embedding.length,
-        model: this.model,
-        timestamp: new Date().toISOString(),
+        values: texts,
+        providerOptions: this.providerOptions,
+        maxRetries: 0, // retried here, with backoff
       }));
+
+      return embeddings.map((embedding, index) => {
+        try {
+          return { index: offset + index, result: this.toResult(embedding) };
+        } catch (error) {
+          return { index: offset + index, result: null, error: error instanceof Error ? error.message : String(error) };
+        }
+      });
     } catch (error) {
-      console.error('Error generating batch embeddings:', error);
-      
-      // Return fallback embeddings in case of error
-      return texts.map(() => ({
-        embedding: new Array(this.dimension).fill(0),
-        dimension: this.dimension,
-        model: this.model,
-        timestamp: new Date().toISOString(),
-      }));
+      const message = error instanceof Error ? error.message : String(error);
+      if (texts.length === 1) {
+        console.error(`Error generating embedding for batch item ${offset}:`, error);
+        return [{ index: offset, result: null, error: message }];
+      }
+
+      // Rate limits, server errors and timeouts would fail every half too, the whole batch is left missing
+      if (!this.isInputError(error)) {
+        console.error(`Batch of ${texts.length} embeddings failed:`, message);
+        return texts.map((_, index) => ({ index: offset + index, result: null, error: message }));
+      }
+
+      console.warn(`Batch of ${texts.length} embeddings was rejected for its input, splitting it in half`);
+      const middle = Math.ceil(texts.length / 2);
+      const first = await this.embedBatch(texts.slice(0, middle), offset);
+      const second = await this.embedBatch(texts.slice(middle), offset + middle);
+      return [...first, ...second];
+    }
+  }
+
+  /**
+   * Run a provider call, retrying rate limits, server and network errors with exponential backoff and
+   * full jitter. Input errors would fail again, they are thrown at once.
+   */
+  private async withRetry<T>(label: string, call: () => Promise<T>): Promise<T> {
+    const { maxRetries, baseDelayMs, maxDelayMs } = this.retryOptions;
+
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return await call();
+      } catch (error) {
+        if (attempt >= maxRetries || !this.isRetryable(error)) {
+          throw error;
+        }
+
+        const delay = Math.random() * Math.min(maxDelayMs, baseDelayMs * 2 ** attempt);
+        console.warn(`Embedding ${label} failed (attempt ${attempt + 1} of ${maxRetries + 1}), retrying in ${Math.round(delay)}ms`);
+        await new Promise(resolve => setTimeout(resolve, delay));
+      }
+    }
+  }
+
+  /**
+   * Whether a provider call may succeed when repeated: rate limits (429), server errors (5xx) and
+   * errors without a status such as network failures, unless the input caused them
+   */
+  private isRetryable(error: unknown): boolean {
+    if (this.isInputError(error)) {
+      return false;
+    }
+
+    const cause = RetryError.isInstance(error) ? error.lastError : error;
+    if (APICallError.isInstance(cause) && cause.statusCode !== undefined) {
+      return cause.statusCode === 429 || cause.statusCode >= 500;
+    }
+    return true;
+  }
+
+  /**
+   * Whether a provider error is caused by an input of the batch (400, 413, 422, input too long),
+   * so splitting the batch isolates the item that fails
+   */
+  private isInputError(error: unknown): boolean {
+    const cause = RetryError.isInstance(error) ? error.lastError : error;
+    if (APICallError.isInstance(cause) && cause.statusCode !== undefined) {
+      return [400, 413, 422].includes(cause.statusCode);
+    }
+
+    const message = cause instanceof Error ? cause.message : String(cause);
+    return /too long|too many tokens|maximum context|input length|invalid input/i.test(message);
+  }
+
+  /**
+   * Wrap a provider vector, rejecting empty and all-zero ones so they never reach the index
+   */
+  private toResult(embedding: number[]): EmbeddingResult {
+    if (embedding.length === 0 || embedding.every(value => value === 0)) {
+      throw new Error('Embedding provider returned an empty or all-zero vector');
+    }
+
+    // Validate embedding dimension
+    if (embedding.length !== this.dimension) {
+      console.warn(`Expected dimension ${this.dimension}, got ${embedding.length}`);
     }
+
+    return {
+      embedding,
+      dimension: embedding.length,
+      model: this.model,
+      timestamp: new Date().toISOString(),
+    };
+  }
+
+  setRetryOptions(options: Partial<RetryOptions>): void {
+    this.retryOptions = { ...this.retryOptions, ...options };
   }
 
   private preprocessText(text: string): string {
-    // Remove excessive whitespace and normalize
+    // Remove excessive whitespace and normalize; length is handled by prepareInput
     return text
       .replace(/\s+/g, ' ')
-      .trim()
-      .substring(0, 8192); // Limit to reasonable length
+      .trim();
+  }
+
+  /**
+   * Token count of a text and how it would be embedded, without calling the provider
+   */
+  async measureInput(text: string): Promise<Pick<EmbeddingResult, 'inputTokens' | 'windows' | 'truncated'>> {
+    return this.describeInput(await this.prepareInput(this.preprocessText(text)));
+  }
+
+  /**
+   * Split a text longer than the model's input limit into windows that fit it, cut at whitespace.
+   * Window sizes are worked out from the text's characters per token and checked with the token counter.
+   */
+  private async prepareInput(text: string): Promise<EmbeddingInput> {
+    const inputTokens = await this.tokenCounter.countTokens(text);
+    if (inputTokens <= this.maxInputTokens) {
+      return { windows: [text], windowTokens: [inputTokens], inputTokens, truncated: false };
+    }
+
+    const charactersPerToken = text.length / inputTokens;
+    const windows: string[] = [];
+    const windowTokens: number[] = [];
+    let rest = text;
+
+    while (rest.length > 0 && windows.length < MAX_INPUT_WINDOWS) {
+      let length = Math.min(rest.length, Math.floor(this.maxInputTokens * charactersPerToken));
+      let window = rest;
+      let tokens = 0;
+
+      // Shrink until the window fits, the estimate can be off for unevenly dense text
+      while (length > 0) {
+        const cut = length < rest.length ? rest.lastIndexOf(' ', length) : length;
+        window = rest.substring(0, cut > length / 2 ? cut : length).trim();
+        tokens = await this.tokenCounter.countTokens(window);
+        if (tokens <= this.maxInputTokens) break;
+        length = Math.floor(length * 0.9);
+      }
+
+      windows.push(window);
+      windowTokens.push(tokens);
+      rest = rest.substring(window.length).trim();
+    }
+
+    const truncated = rest.length > 0;
+    if (truncated) {
+      console.warn(`Input of ${inputTokens} tokens is longer than ${MAX_INPUT_WINDOWS} windows of ${this.maxInputTokens} tokens, its tail is not embedded`);
+    }
+
+    return { windows, windowTokens, inputTokens, truncated };
+  }
+
+  private describeInput(input: EmbeddingInput): Pick<EmbeddingResult, 'inputTokens' | 'windows' | 'truncated'> {
+    return { inputTokens: input.inputTokens, windows: input.windows.length, truncated: input.truncated };
+  }
+
+  /**
+   * Mean of the window vectors weighted by their token counts, normalised to unit length
+   */
+  private poolWindows(embeddings: number[][], weights: number[]): number[] {
+    const pooled = new Array<number>(embeddings[0].length).fill(0);
+    embeddings.forEach((embedding, index) => {
+      embedding.forEach((value, dimension) => {
+        pooled[dimension] += value * weights[index];
+      });
+    });
+
+    const norm = Math.sqrt(pooled.reduce((sum, value) => sum + value * value, 0));
+    return norm > 0 ? pooled.map(value => value / norm) : pooled;
   }
 
   getDimension(): number {
     return this.dimension;
   }
 
+  getMaxInputTokens(): number {
+    return this.maxInputTokens;
+  }
+
   getModel(): string {
     return this.model;
   }
 
-  getModelInfo(): { modelName: string; dimension: number } {
-    return { modelName: this.model, dimension: this.dimension };
+  getProvider(): EmbeddingProviderName {
+    return this.provider;
+  }
+
+  getModelInfo(): { provider: EmbeddingProviderName; modelName: string; dimension: number } {
+    return { provider: this.provider, modelName: this.model, dimension: this.dimension };
+  }
+
+  /**
+   * Check the configured dimension against the vector columns embeddings are written to and searched in
+   *
+   * @param columnDimensions Dimension of every embedding column, keyed by table
+   * @returns false when a column has another dimension; true when they match or could not be read
+   */
+  validateDimension(columnDimensions: Map<string, number>): boolean {
+    if (columnDimensions.size === 0) {
+      console.warn('Could not read the embedding column dimensions, skipping the dimension check');
+      return true;
+    }
+
+    const mismatched = Array.from(columnDimensions.entries()).filter(([, dimension]) => dimension !== this.dimension);
+    for (const [table, dimension] of mismatched) {
+      console.error(`Embedding dimension mismatch: ${this.provider} model ${this.model} produces ${this.dimension}, ${table}.embedding is VECTOR(${dimension})`);
+    }
+
+    return mismatched.length === 0;
   }
 
   isReady(): boolean {
@@ -129,6 +448,10 @@ export async function generateEmbedding(message: string): Promise<number[]> {
 }
 
 export async function generateMultipleEmbeddings(messages: string[]): Promise<number[][]> {
-  const results = await embeddingService.generateBatchEmbeddings(messages);
-  return results.map(result => result.embedding);
+  const items = await embeddingService.generateBatchEmbeddings(messages);
+  const failed = items.find(item => !item.result);
+  if (failed) {
+    throw new Error(`Failed to generate embedding for message ${failed.index}: ${failed.error}`);
+  }
+  return items.map(item => (item.result as EmbeddingResult).embedding);
 }
\ No newline at end of file
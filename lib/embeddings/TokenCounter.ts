@@ -0,0 +1,47 @@
+import type { PreTrainedTokenizer } from '@xenova/transformers';
+
+export interface TokenCounter {
+  countTokens(text: string): Promise<number>;
+}
+
+/**
+ * Estimate for API models whose tokenizer is not available here: ~4 characters per token,
+ * as the chunkers estimate, but one token per CJK character so Chinese text is not undercounted
+ */
+export class EstimatedTokenCounter implements TokenCounter {
+  async countTokens(text: string): Promise<number> {
+    const cjkCharacters = (text.match(/[\u3000-\u9fff\uf900-\ufaff\uff00-\uffef]/g) || []).length;
+    return cjkCharacters + Math.ceil((text.length - cjkCharacters) / 4);
+  }
+}
+
+/**
+ * Exact counts with the model's own tokenizer, for models run locally with Transformers.js
+ */
+export class TransformersTokenCounter implements TokenCounter {
+  private tokenizer: Promise<PreTrainedTokenizer> | null = null;
+
+  constructor(private readonly modelId: string) {}
+
+  async countTokens(text: string): Promise<number> {
+    const tokenizer = await this.loadTokenizer();
+    // Includes the special tokens, they count against the model's input limit too
+    return tokenizer.encode(text).length;
+  }
+
+  private loadTokenizer(): Promise<PreTrainedTokenizer> {
+    if (!this.tokenizer) {
+      this.tokenizer = (async () => {
+        const { AutoTokenizer } = await import('@xenova/transformers');
+        return AutoTokenizer.from_pretrained(this.modelId);
+      })();
+
+      // Allow a retry on the next call if loading failed
+      this.tokenizer.catch(() => {
+        this.tokenizer = null;
+      });
+    }
+
+    return this.tokenizer;
+  }
+}
@@ -0,0 +1,45 @@
+import type { EmbeddingModel } from 'ai';
+import type { FeatureExtractionPipeline } from '@xenova/transformers';
+
+type EmbeddingModelV2 = Exclude<EmbeddingModel<string>, string>;
+
+/**
+ * AI SDK embedding model running a sentence-transformers model locally with Transformers.js,
+ * so ingestion and tests work offline once the model is cached
+ */
+export class TransformersEmbeddingModel implements EmbeddingModelV2 {
+  readonly specificationVersion = 'v2';
+  readonly provider = 'transformers';
+  readonly maxEmbeddingsPerCall = 32;
+  readonly supportsParallelCalls = false;
+
+  private extractor: Promise<FeatureExtractionPipeline> | null = null;
+
+  constructor(readonly modelId: string) {}
+
+  async doEmbed({ values }: { values: string[] }) {
+    const extractor = await this.loadExtractor();
+
+    // Mean pooling with normalisation, as sentence-transformers does
+    const output = await extractor(values, { pooling: 'mean', normalize: true });
+
+    return { embeddings: output.tolist() as number[][] };
+  }
+
+  private loadExtractor(): Promise<FeatureExtractionPipeline> {
+    if (!this.extractor) {
+      console.log(`Loading embedding model ${this.modelId}...`);
+      this.extractor = (async () => {
+        const { pipeline } = await import('@xenova/transformers');
+        return pipeline('feature-extraction', this.modelId) as Promise<FeatureExtractionPipeline>;
+      })();
+
+      // Allow a retry on the next call if loading failed
+      this.extractor.catch(() => {
+        this.extractor = null;
+      });
+    }
+
+    return this.extractor;
+  }
+}
@@ -1,8 +1,13 @@
-import { BRDRCrawler, CrawledDocument } from '../../crawler/BRDRCrawler';
-import { markdownPageChunker, ProcessedDocument, PageChunk } from '../chunking/MarkdownPageChunker';
-import { embeddingService, EmbeddingService } from '../embeddings/EmbeddingService';
-import { supabaseService, DatabaseDocument, DatabaseChunk, SupabaseService } from '../database/SupabaseService';
+import { BRDRCrawler, BRDRSearchCriteria, CrawledDocument, CrawlResult, RelatedDocItem } from '../../crawler/BRDRCrawler';
+import { markdownPageChunker, MarkdownDocument, ProcessedDocument, PageChunk } from '../chunking/MarkdownPageChunker';
+import { documentChunker, ChunkingStrategyOptions } from '../chunking/DocumentChunker';
+import { embeddingService, EmbeddingService, EmbeddingResult } from '../embeddings/EmbeddingService';
+import { EmbeddingProviderConfig, EmbeddingProviderName } from '../embeddings/EmbeddingProviderRegistry';
+import { embeddingIndexManager } from '../embeddings/EmbeddingIndexManager';
+import { supabaseService, DatabaseDocument, DatabaseChunk, SupabaseService, DocumentRelation, DocumentRelationType, DocumentHashes, ETLDocumentStatus } from '../database/SupabaseService';
+import { BRDRLanguageCode, BRDR_LANGUAGES } from '../utils/BRDRLanguages';
 import { v4 as uuidv4 } from 'uuid';
+import { createHash } from 'crypto';
 
 export interface ETLOptions {
   maxDocuments?: number;
@@ -10,14 +15,47 @@ export interface ETLOptions {
   databaseBatchSize?: number; // Upload to database every N documents
   skipExisting?: boolean;
   generateEmbeddings?: boolean;
-  chunkingOptions?: {
-    maxTokens?: number;
-    overlap?: number;
-    hierarchyLevels?: number;
-  };
+  chunkingOptions?: ChunkingStrategyOptions; // page chunks unless another strategy is chosen
+  incremental?: boolean; // only re-process documents whose content or metadata hash changed (default true)
+  resumeRunId?: string; // continue a run from its checkpoints instead of crawling again
+  retryFailedOnly?: boolean; // with resumeRunId: only process the documents that failed
+  convertPdfs?: boolean; // convert the BRDR PDF of documents without a markdown file (default true)
+  languages?: BRDRLanguageCode[]; // BRDR languages to ingest, English and Traditional Chinese by default
+  searchCriteria?: BRDRSearchCriteria; // BRDR search the crawl lists, current versions of every document by default
+  sinceLastCrawl?: boolean; // only crawl documents issued on or after the newest stored issue_date
+}
+
+// Checkpoints a resumed run processes again; stored documents are done
+const RESUMABLE_STATUSES: ETLDocumentStatus[] = ['pending', 'crawled', 'chunked', 'embedded', 'failed'];
+
+export interface ETLChangeReport {
+  added: string[];
+  updated: string[];
+  unchanged: string[];
+  removed: string[]; // stored documents no longer listed by the BRDR API (full crawls only)
+}
+
+type DocumentHashFields = Pick<DatabaseDocument, 'content_hash' | 'metadata_hash' | 'source_hash'>;
+
+interface ETLRunDocuments {
+  options: ETLOptions;
+  apiDocuments: CrawledDocument[];
+  pendingDocuments: CrawledDocument[];
+  crawlComplete: boolean; // every page of the listing was fetched, so missing documents can be removed
+}
+
+interface ProcessedHybridDocument {
+  apiDoc: CrawledDocument;
+  markdownDoc?: ProcessedDocument;
+  chunks?: PageChunk[];
+  hashes?: DocumentHashFields;
+  change?: 'added' | 'updated' | 'unchanged';
+  metadataOnlyUpdate?: boolean; // only the API metadata changed, chunks and embeddings stay
+  error?: string;
 }
 
 export interface ETLProgress {
+  runId?: string;
   phase: 'crawling' | 'chunking' | 'embedding' | 'storing' | 'complete' | 'error';
   documentsProcessed: number;
   documentsSkipped: number;
@@ -27,16 +65,19 @@ export interface ETLProgress {
   currentDocument?: string;
   error?: string;
   errors: string[];
+  changes: ETLChangeReport;
   startTime: Date;
   endTime?: Date;
 }
 
 export interface ETLResult {
+  runId?: string;
   success: boolean;
   documentsProcessed: number;
   chunksCreated: number;
   embeddingsGenerated: number;
   errors: string[];
+  changes: ETLChangeReport;
   processingTime: number;
   progress: ETLProgress;
 }
@@ -47,6 +88,7 @@ export class ETLPipeline {
   private errors: string[] = [];
   private supabaseServiceInstance: SupabaseService;
   private embeddingServiceInstance: EmbeddingService;
+  private existingDocuments: Map<string, DocumentHashes> = new Map();
 
   constructor(
     supabaseServiceInstance: SupabaseService = supabaseService,
@@ -64,6 +106,7 @@ export class ETLPipeline {
       chunksCreated: 0,
       embeddingsGenerated: 0,
       errors: [],
+      changes: { added: [], updated: [], unchanged: [], removed: [] },
       startTime: new Date()
     };
   }
@@ -71,6 +114,8 @@ export class ETLPipeline {
   async runFullPipeline(options: ETLOptions = {}): Promise<ETLResult> {
     const startTime = Date.now();
     this.progress.startTime = new Date();
+    this.progress.changes = { added: [], updated: [], unchanged: [], removed: [] };
+    this.progress.runId = undefined;
     this.errors = [];
 
     try {
@@ -81,19 +126,50 @@ export class ETLPipeline {
         throw new Error('Database connection failed');
       }
 
-      // Phase 1: Crawl metadata from BRDR API
+      // Vectors of the wrong size would fail every insert, stop before crawling
+      const columnDimensions = await this.supabaseServiceInstance.getEmbeddingDimensions();
+      if (!this.embeddingServiceInstance.validateDimension(columnDimensions)) {
+        throw new Error(`Embedding dimension ${this.embeddingServiceInstance.getDimension()} does not match the database embedding columns`);
+      }
+
+      // The run writes the embedding columns, which must hold vectors of the configured model only
+      await this.ensureInlineEmbeddingIndex();
+
+      // Phase 1: Crawl metadata from BRDR API, or pick up the checkpoints of the run being resumed
       this.progress.phase = 'crawling';
-      
-      const apiDocuments = await this.crawlApiDocuments(options);
-      this.progress.totalDocuments = apiDocuments.length;
+
+      const run = options.resumeRunId
+        ? await this.resumeRun(options)
+        : await this.startRun(options);
+      options = run.options;
+      const { apiDocuments, pendingDocuments, crawlComplete } = run;
+      this.progress.totalDocuments = pendingDocuments.length;
       
       if (apiDocuments.length === 0) {
         console.warn('No documents found in BRDR API');
+        await this.finishRun('completed');
         return this.createResult(true, startTime);
       }
 
+      // Hashes of what is already stored, so unchanged documents are not re-chunked or re-embedded
+      this.existingDocuments = await this.supabaseServiceInstance.getDocumentHashes();
+
       // Phase 2: Match with markdown files and process
-      await this.processHybridBatch(apiDocuments, options);
+      await this.processHybridBatch(pendingDocuments, options);
+
+      // A limited, filtered or incomplete crawl does not list every document, so only full incremental runs remove documents
+      if (options.incremental !== false && !options.maxDocuments && !options.retryFailedOnly
+        && crawlComplete && this.brdrCrawler.coversAllDocuments(options.searchCriteria)) {
+        await this.removeMissingDocuments(apiDocuments, options.languages);
+      } else if (!crawlComplete) {
+        console.warn('Crawl incomplete, documents missing from the listing are not removed');
+      }
+
+      if (options.generateEmbeddings !== false) {
+        await this.refreshActiveSideIndex();
+      }
+
+      await this.finishRun('completed');
 
       this.progress.phase = 'complete';
       this.progress.endTime = new Date();
@@ -102,6 +178,10 @@ export class ETLPipeline {
         documentsProcessed: this.progress.documentsProcessed,
         chunksCreated: this.progress.chunksCreated,
         embeddingsGenerated: this.progress.embeddingsGenerated,
+        added: this.progress.changes.added.length,
+        updated: this.progress.changes.updated.length,
+        unchanged: this.progress.changes.unchanged.length,
+        removed: this.progress.changes.removed.length,
         processingTime: Date.now() - startTime
       });
 
@@ -114,37 +194,159 @@ export class ETLPipeline {
       
       console.error('ETL pipeline failed', error);
       this.errors.push(this.progress.error);
+      await this.finishRun('failed', this.progress.error);
       
       return this.createResult(false, startTime);
     }
   }
 
-  private async crawlApiDocuments(options: ETLOptions): Promise<CrawledDocument[]> {
+  /**
+   * Process again the documents that failed in a run, leaving the others as they are
+   */
+  async retryFailedDocuments(runId: string, options: ETLOptions = {}): Promise<ETLResult> {
+    return this.runFullPipeline({ ...options, resumeRunId: runId, retryFailedOnly: true });
+  }
+
+  /**
+   * Crawl the API documents and record them as the checkpoints of a new run
+   */
+  private async startRun(options: ETLOptions): Promise<ETLRunDocuments> {
+    // Recorded with the run, so a resumed run knows which search it crawled
+    options = { ...options, searchCriteria: await this.resolveSearchCriteria(options) };
+    const { documents: apiDocuments, complete: crawlComplete } = await this.crawlApiDocuments(options);
+
+    const runId = await this.supabaseServiceInstance.createEtlRun({ ...options }, crawlComplete);
+    if (!runId) {
+      console.warn('Could not create an ETL run log, this run cannot be resumed');
+    } else {
+      this.progress.runId = runId;
+      console.info(`Started ETL run ${runId}`);
+
+      const recorded = await this.supabaseServiceInstance.upsertEtlRunDocuments(apiDocuments.map(doc => ({
+        run_id: runId,
+        doc_id: doc.doc_id,
+        status: 'crawled' as const,
+        api_document: doc
+      })));
+      if (!recorded) {
+        console.warn(`Could not record the documents of ETL run ${runId}`);
+      }
+    }
+
+    return { options, apiDocuments, pendingDocuments: apiDocuments, crawlComplete };
+  }
+
+  /**
+   * Load a run's options and crawled documents, keeping the ones not yet stored (or only the failed ones)
+   */
+  private async resumeRun(options: ETLOptions): Promise<ETLRunDocuments> {
+    const runId = options.resumeRunId as string;
+    const run = await this.supabaseServiceInstance.getEtlRun(runId);
+    if (!run) {
+      throw new Error(`ETL run not found: ${runId}`);
+    }
+
+    this.progress.runId = runId;
+    await this.supabaseServiceInstance.updateEtlRun(runId, { status: 'running', error: null, finished_at: null });
+
+    // Options given now take precedence over the ones the run was started with
+    const resumedOptions: ETLOptions = { ...(run.options as ETLOptions), ...options };
+    const statuses = resumedOptions.retryFailedOnly ? ['failed'] : RESUMABLE_STATUSES;
+
+    const runDocuments = await this.supabaseServiceInstance.getEtlRunDocuments(runId);
+    const apiDocuments = runDocuments
+      .filter(doc => doc.api_document)
+      .map(doc => doc.api_document as CrawledDocument);
+    const pendingDocuments = runDocuments
+      .filter(doc => doc.api_document && statuses.includes(doc.status))
+      .map(doc => doc.api_document as CrawledDocument);
+
+    console.info(`Resuming ETL run ${runId}: ${pendingDocuments.length} of ${apiDocuments.length} documents to process`);
+
+    // Runs recorded before completeness was stored count as incomplete
+    return { options: resumedOptions, apiDocuments, pendingDocuments, crawlComplete: run.crawl_complete === true };
+  }
+
+  private async finishRun(status: 'completed' | 'failed', error?: string): Promise<void> {
+    if (!this.progress.runId) return;
+
+    await this.supabaseServiceInstance.updateEtlRun(this.progress.runId, {
+      status,
+      error: error ?? null,
+      finished_at: new Date().toISOString()
+    });
+  }
+
+  /**
+   * Record the checkpoint a document reached in the current run
+   */
+  private async checkpoint(docId: string, status: ETLDocumentStatus, error?: string): Promise<void> {
+    if (!this.progress.runId) return;
+
+    const success = await this.supabaseServiceInstance.updateEtlRunDocumentStatus(this.progress.runId, docId, status, error);
+    if (!success) {
+      console.warn(`Could not record checkpoint ${status} for document: ${docId}`);
+    }
+  }
+
+  /**
+   * Search criteria of a run: with sinceLastCrawl, documents issued on or after the newest stored issue_date.
+   * The earliest of the per-language dates is used, so a language that lags behind is caught up too.
+   */
+  private async resolveSearchCriteria(options: ETLOptions): Promise<BRDRSearchCriteria> {
+    const criteria = { ...options.searchCriteria };
+    if (!options.sinceLastCrawl) {
+      return criteria;
+    }
+
+    const languages = (options.languages || ['eng', 'chi']).map(langCode => BRDR_LANGUAGES[langCode]);
+    const latestDates = await Promise.all(languages.map(language => this.supabaseServiceInstance.getLatestIssueDate(language)));
+
+    // A language without documents has to be crawled in full
+    if (latestDates.some(date => !date)) {
+      console.info('No stored documents in some of the languages, crawling without an issue date limit');
+      return criteria;
+    }
+
+    // Same-day documents are listed again, unchanged ones are skipped by their hashes.
+    // Newest first, so the crawl stops at the first page of older documents.
+    const since = (latestDates as string[]).sort()[0];
+    console.info(`Crawling documents issued since ${since}`);
+    return {
+      ...criteria,
+      issueDateFrom: criteria.issueDateFrom && criteria.issueDateFrom > since ? criteria.issueDateFrom : since,
+      sortBy: criteria.sortBy || 'ISSUE_DATE'
+    };
+  }
+
+  private async crawlApiDocuments(options: ETLOptions): Promise<CrawlResult> {
     console.info('Starting BRDR API document crawling for metadata');
     
     // Calculate pages needed to get all documents or respect maxDocuments limit
     const maxPages = options.maxDocuments ? Math.ceil(options.maxDocuments / 20) : 999; // Use 999 to get all available pages
     
-    const documents = await this.brdrCrawler.crawlDocuments({
+    const { documents, complete } = await this.brdrCrawler.crawlDocuments({
       maxPages: maxPages,
-      includePDFContent: false, // We'll use markdown for content
-      filterExisting: options.skipExisting || true
+      includePDFContent: false, // PDFs are converted per document, only when there is no markdown file
+      filterExisting: options.skipExisting || true,
+      languages: options.languages,
+      criteria: options.searchCriteria
     });
 
     console.info(`Successfully crawled ${documents.length} documents from BRDR API`);
 
     if (options.maxDocuments && documents.length > options.maxDocuments) {
       console.info(`Limiting to ${options.maxDocuments} documents as requested`);
-      return documents.slice(0, options.maxDocuments);
+      return { documents: documents.slice(0, options.maxDocuments), complete: false };
     }
 
-    return documents;
+    return { documents, complete };
   }
 
   private async processHybridBatch(apiDocuments: CrawledDocument[], options: ETLOptions): Promise<void> {
     const processingBatchSize = options.batchSize || 10;
     const databaseBatchSize = options.databaseBatchSize || 50; // Upload to database every N documents
-    const processedDocuments: { apiDoc: CrawledDocument; markdownDoc?: ProcessedDocument; chunks?: PageChunk[] }[] = [];
+    const processedDocuments: ProcessedHybridDocument[] = [];
     
     console.info(`Starting hybrid batch processing with database batching every ${databaseBatchSize} documents`);
     
@@ -189,7 +391,7 @@ export class ETLPipeline {
     }
   }
 
-  private async processHybridDocumentInMemory(apiDocument: CrawledDocument, options: ETLOptions): Promise<{ markdownDoc?: ProcessedDocument; chunks?: PageChunk[] }> {
+  private async processHybridDocumentInMemory(apiDocument: CrawledDocument, options: ETLOptions): Promise<Omit<ProcessedHybridDocument, 'apiDoc'>> {
     try {
       this.progress.currentDocument = apiDocument.doc_id;
       console.info(`Processing hybrid document in memory: ${apiDocument.doc_id}`);
@@ -204,46 +406,119 @@ export class ETLPipeline {
         }
       }
 
+      const existing = this.existingDocuments.get(apiDocument.doc_id);
+      const metadataHash = this.hashText(JSON.stringify(this.toDocumentMetadata(apiDocument)));
+
+      // A document converted from its PDF is not converted and embedded again while the PDF and its metadata are unchanged
+      const markdownFile = markdownPageChunker.parseMarkdownFile(`${apiDocument.doc_id}.md`);
+      const pdf = !markdownFile && options.convertPdfs !== false && !apiDocument.pdfContent
+        ? await this.brdrCrawler.downloadPDF(apiDocument.doc_id, apiDocument.language)
+        : null;
+      const sourceHash = pdf ? this.hashSource(pdf, options) : null;
+      if (options.incremental !== false && existing && sourceHash
+        && existing.source_hash === sourceHash && existing.metadata_hash === metadataHash) {
+        console.info(`Unchanged document: ${apiDocument.doc_id}`);
+        return { change: 'unchanged' };
+      }
+
       // Phase 2: Find matching markdown file and chunk it
-      const markdownDoc = await this.findAndProcessMarkdownFile(apiDocument.doc_id);
+      const markdownDoc = await this.findAndProcessMarkdownFile(apiDocument, options, markdownFile, pdf);
+
+      // Compare with the stored hashes
+      const hashes: DocumentHashFields = {
+        content_hash: this.hashContent(markdownDoc ? markdownDoc.fullContent : apiDocument.content || '', options),
+        metadata_hash: metadataHash,
+        source_hash: sourceHash
+      };
+      const change = existing ? 'updated' : 'added';
+
+      if (options.incremental !== false && existing && existing.content_hash === hashes.content_hash) {
+        if (existing.metadata_hash === hashes.metadata_hash) {
+          console.info(`Unchanged document: ${apiDocument.doc_id}`);
+          // Documents stored before their source hash was recorded get it, so the next run skips the download
+          return existing.source_hash === hashes.source_hash ? { change: 'unchanged' } : { change: 'unchanged', hashes };
+        }
+
+        console.info(`Only the metadata changed for document: ${apiDocument.doc_id}`);
+        return { hashes, change, metadataOnlyUpdate: true };
+      }
 
       if (!markdownDoc) {
-        console.info(`No markdown file found for document: ${apiDocument.doc_id}`);
-        return { markdownDoc: undefined, chunks: undefined }; // Return empty result for metadata-only
+        console.info(`No markdown file or PDF text found for document: ${apiDocument.doc_id}`);
+        return { hashes, change }; // Return empty result for metadata-only
       }
 
       const chunks = markdownDoc.chunks;
+      await this.checkpoint(apiDocument.doc_id, 'chunked');
+
+      // Chunks whose text did not change keep their stored embedding
+      if (existing) {
+        const storedEmbeddings = await this.supabaseServiceInstance.getChunkEmbeddingsByHash(apiDocument.doc_id, this.embeddingServiceInstance.getModel());
+        for (const chunk of chunks) {
+          chunk.embedding = storedEmbeddings.get(this.hashText(this.getEmbeddingText(chunk)));
+        }
+      }
 
       // Phase 3: Generate embeddings
       const chunksWithEmbeddings = await this.generateEmbeddings(chunks, options);
+      const missingEmbeddings = chunksWithEmbeddings.filter(chunk => chunk.embeddingError).length;
+      if (missingEmbeddings > 0) {
+        this.progress.errors.push(`Document ${apiDocument.doc_id}: ${missingEmbeddings} chunks stored with embedding missing`);
+      }
+      await this.checkpoint(apiDocument.doc_id, 'embedded');
 
-      return { markdownDoc, chunks: chunksWithEmbeddings };
+      return { markdownDoc, chunks: chunksWithEmbeddings, hashes, change };
 
     } catch (error: unknown) {
       console.error(`Error processing hybrid document in memory: ${apiDocument.doc_id}`, error);
-      this.progress.errors.push(`Document ${apiDocument.doc_id}: ${error instanceof Error ? error.message : String(error)}`);
-      return {};
+      const message = error instanceof Error ? error.message : String(error);
+      this.progress.errors.push(`Document ${apiDocument.doc_id}: ${message}`);
+      return { error: message };
     }
   }
 
-  private async uploadBatchToDatabase(processedDocuments: { apiDoc: CrawledDocument; markdownDoc?: ProcessedDocument; chunks?: PageChunk[] }[], options: ETLOptions): Promise<void> {
+  private async uploadBatchToDatabase(processedDocuments: ProcessedHybridDocument[], options: ETLOptions): Promise<void> {
     console.info(`Uploading batch of ${processedDocuments.length} documents to database`);
     
-    for (const { apiDoc, markdownDoc, chunks } of processedDocuments) {
+    for (const { apiDoc, markdownDoc, chunks, hashes, change, metadataOnlyUpdate, error } of processedDocuments) {
+      // Failed while chunking or embedding, nothing to store
+      if (error) {
+        await this.checkpoint(apiDoc.doc_id, 'failed', error);
+        continue;
+      }
+
       try {
-        if (markdownDoc && chunks) {
+        if (change === 'unchanged') {
+          if (hashes && !await this.supabaseServiceInstance.updateDocument(apiDoc.doc_id, { source_hash: hashes.source_hash })) {
+            console.warn(`Could not record the source hash of document: ${apiDoc.doc_id}`);
+          }
+          this.progress.changes.unchanged.push(apiDoc.doc_id);
+          this.progress.documentsSkipped++;
+          await this.checkpoint(apiDoc.doc_id, 'stored');
+          continue;
+        }
+
+        if (metadataOnlyUpdate && hashes) {
+          await this.updateDocumentMetadata(apiDoc, hashes);
+        } else if (markdownDoc && chunks) {
           // Store hybrid document (API metadata + markdown content)
-          await this.storeHybridDocument(apiDoc, markdownDoc, chunks);
+          await this.storeHybridDocument(apiDoc, markdownDoc, chunks, hashes);
         } else {
           // Store metadata-only document
-          await this.storeMetadataOnly(apiDoc);
+          await this.storeMetadataOnly(apiDoc, hashes);
         }
         
         this.progress.documentsProcessed++;
+        if (change) {
+          this.progress.changes[change].push(apiDoc.doc_id);
+        }
+        await this.checkpoint(apiDoc.doc_id, 'stored');
         
       } catch (error: unknown) {
         console.error(`Error uploading document to database: ${apiDoc.doc_id}`, error);
-        this.progress.errors.push(`Database upload ${apiDoc.doc_id}: ${error instanceof Error ? error.message : String(error)}`);
+        const message = error instanceof Error ? error.message : String(error);
+        this.progress.errors.push(`Database upload ${apiDoc.doc_id}: ${message}`);
+        await this.checkpoint(apiDoc.doc_id, 'failed', message);
       }
     }
     
@@ -267,10 +542,10 @@ export class ETLPipeline {
 
       // Phase 2: Find matching markdown file and chunk it
       this.progress.phase = 'chunking';
-      const markdownDoc = await this.findAndProcessMarkdownFile(apiDocument.doc_id);
+      const markdownDoc = await this.findAndProcessMarkdownFile(apiDocument, options);
       
       if (!markdownDoc) {
-        console.warn(`No markdown file found for document: ${apiDocument.doc_id}`);
+        console.warn(`No markdown file or PDF text found for document: ${apiDocument.doc_id}`);
         // Store only metadata without chunks
         await this.storeMetadataOnly(apiDocument);
         this.progress.documentsProcessed++;
@@ -301,26 +576,36 @@ export class ETLPipeline {
     }
   }
 
-  private async findAndProcessMarkdownFile(docId: string): Promise<ProcessedDocument | null> {
-    try {
-      // Try to find markdown file with matching docId
-      const filename = `${docId}.md`;
-      const markdownDocument = markdownPageChunker.parseMarkdownFile(filename);
-      
-      if (!markdownDocument) {
-        return null;
-      }
-      
-      const processedDoc = markdownPageChunker.processDocument(markdownDocument);
-      this.progress.chunksCreated += processedDoc.chunks.length;
-      
-      console.debug(`Found and processed markdown file: ${filename} with ${processedDoc.chunks.length} pages`);
-      
-      return processedDoc;
-    } catch (error) {
-      console.debug(`No markdown file found for doc_id: ${docId}`);
+  /**
+   * Chunk the document's markdown file, or its PDF converted to markdown when there is no file.
+   * Download and conversion errors are thrown, so the document fails and keeps its stored chunks.
+   */
+  private async findAndProcessMarkdownFile(
+    apiDocument: CrawledDocument,
+    options: ETLOptions,
+    markdownFile: MarkdownDocument | null = markdownPageChunker.parseMarkdownFile(`${apiDocument.doc_id}.md`),
+    pdf: Uint8Array | null = null // PDF already downloaded, to be converted without downloading it again
+  ): Promise<ProcessedDocument | null> {
+    const docId = apiDocument.doc_id;
+    let markdownDocument = markdownFile;
+
+    if (!markdownDocument && options.convertPdfs !== false) {
+      const pdfMarkdown = apiDocument.pdfContent || await this.brdrCrawler.convertPDFToMarkdown(docId, apiDocument.doc_long_title, apiDocument.language, pdf ?? undefined);
+      markdownDocument = pdfMarkdown ? markdownPageChunker.parseMarkdownContent(`${docId}.md`, pdfMarkdown) : null;
+    }
+
+    if (!markdownDocument) {
+      console.debug(`No markdown file or PDF text for doc_id: ${docId}`);
       return null;
     }
+
+    const processedDoc = markdownPageChunker.processDocument(markdownDocument);
+    processedDoc.chunks = await documentChunker.chunk(processedDoc, options.chunkingOptions);
+    this.progress.chunksCreated += processedDoc.chunks.length;
+
+    console.debug(`Found and processed markdown for ${docId} with ${processedDoc.chunks.length} ${options.chunkingOptions?.strategy || 'page'} chunks`);
+
+    return processedDoc;
   }
 
   private async generateEmbeddings(
@@ -331,60 +616,253 @@ export class ETLPipeline {
       return chunks;
     }
 
-    console.debug(`Generating embeddings for ${chunks.length} page chunks`);
-    
-    for (const chunk of chunks) {
-      try {
-        console.log("chunk is", chunk.cleanContent)
-        const embeddingResult = await this.embeddingServiceInstance.generateEmbedding(chunk.cleanContent);
-        chunk.embedding = embeddingResult.embedding;
-        this.progress.embeddingsGenerated++;
-      } catch (error) {
-        console.error(`Failed to generate embedding for chunk: ${chunk.id}`, error);
-        // Continue processing other chunks
+    // Chunks with an embedding reused from the previous run are skipped, but still get their warning
+    const pending = chunks.filter(chunk => !chunk.embedding);
+    console.debug(`Generating embeddings for ${pending.length} of ${chunks.length} chunks`);
+
+    for (const chunk of chunks.filter(chunk => chunk.embedding)) {
+      this.recordEmbeddingWarning(chunk, await this.embeddingServiceInstance.measureInput(this.getEmbeddingText(chunk)));
+    }
+
+    const embeddingBatchSize = 50;
+    for (let i = 0; i < pending.length; i += embeddingBatchSize) {
+      const batch = pending.slice(i, i + embeddingBatchSize);
+      const items = await this.embeddingServiceInstance.generateBatchEmbeddings(
+        batch.map(chunk => this.getEmbeddingText(chunk)),
+        { persistentCache: true }
+      );
+
+      for (const item of items) {
+        const chunk = batch[item.index];
+        if (item.result) {
+          chunk.embedding = item.result.embedding;
+          chunk.embeddingError = undefined;
+          this.recordEmbeddingWarning(chunk, item.result);
+          if (!item.result.cached) {
+            this.progress.embeddingsGenerated++;
+          }
+        } else {
+          // Stored without an embedding and flagged, so the repair job can backfill it
+          chunk.embeddingError = item.error || 'Unknown embedding error';
+          console.error(`Failed to generate embedding for chunk: ${chunk.id}`, item.error);
+        }
       }
     }
 
     return chunks;
   }
 
+  private recordEmbeddingWarning(chunk: PageChunk, input: Pick<EmbeddingResult, 'inputTokens' | 'windows' | 'truncated'>): void {
+    if (input.truncated) {
+      chunk.metadata.embeddingWarning = `Truncated: ${input.inputTokens} tokens, only the first ${input.windows} windows ` +
+        `of ${this.embeddingServiceInstance.getMaxInputTokens()} tokens are embedded`;
+      console.warn(`Chunk ${chunk.id} is too long to embed in full (${input.inputTokens} tokens)`);
+    }
+  }
+
+  /**
+   * Text embedded for a chunk: its heading path as a breadcrumb line, then the chunk text
+   */
+  private getEmbeddingText(chunk: Pick<PageChunk, 'cleanContent'> & { metadata?: { headingPath?: string[] } }): string {
+    const headingPath = chunk.metadata?.headingPath;
+    return headingPath && headingPath.length > 0
+      ? `${headingPath.join(' > ')}\n\n${chunk.cleanContent}`
+      : chunk.cleanContent;
+  }
+
+  /**
+   * Backfill the chunks that were stored without an embedding
+   */
+  async repairMissingEmbeddings(limit: number = 500): Promise<{ repaired: number; failed: number }> {
+    await this.ensureInlineEmbeddingIndex();
+
+    const chunks = await this.supabaseServiceInstance.getChunksMissingEmbeddings(limit);
+    console.info(`Repairing ${chunks.length} chunks with missing embeddings`);
+
+    let repaired = 0;
+    let failed = 0;
+    const embeddingBatchSize = 50;
+
+    for (let i = 0; i < chunks.length; i += embeddingBatchSize) {
+      const batch = chunks.slice(i, i + embeddingBatchSize);
+      const items = await this.embeddingServiceInstance.generateBatchEmbeddings(
+        batch.map(chunk => this.getEmbeddingText({ cleanContent: chunk.content, metadata: chunk.metadata })),
+        { persistentCache: true }
+      );
+
+      for (const item of items) {
+        const chunk = batch[item.index];
+        if (item.result && await this.supabaseServiceInstance.updateChunkEmbedding(chunk.id, item.result.embedding, this.embeddingServiceInstance.getModel())) {
+          repaired++;
+        } else {
+          console.warn(`Could not repair embedding of chunk ${chunk.chunk_id} of ${chunk.doc_id}: ${item.error || 'update failed'}`);
+          failed++;
+        }
+      }
+    }
+
+    console.info(`Embedding repair completed: ${repaired} repaired, ${failed} still missing`);
+    return { repaired, failed };
+  }
+
+  /**
+   * Build a side index for another embedding model from the stored chunks, next to the index search
+   * currently uses. Running it again only embeds new and changed chunks. Search switches to the index
+   * once it is activated (EmbeddingIndexManager.activate or `activate: true`).
+   */
+  async buildEmbeddingIndex(
+    config: Partial<EmbeddingProviderConfig>,
+    options: { batchSize?: number; activate?: boolean } = {}
+  ): Promise<{ embeddingModel: string; embedded: number; failed: number }> {
+    const { batchSize = 50, activate = false } = options;
+    const indexService = new EmbeddingService(config);
+    const embeddingModel = indexService.getModel();
+
+    console.info(`Building embedding index ${embeddingModel} (${indexService.getProvider()}, ${indexService.getDimension()} dimensions)`);
+
+    const registered = await this.supabaseServiceInstance.registerEmbeddingIndex({
+      embedding_model: embeddingModel,
+      provider: indexService.getProvider(),
+      embedding_dimension: indexService.getDimension(),
+      storage: 'side',
+      status: 'building'
+    });
+    if (!registered) {
+      throw new Error(`Failed to register embedding index: ${embeddingModel}`);
+    }
+
+    let embedded = 0;
+    const failedIds: string[] = [];
+
+    while (true) {
+      const chunks = await this.supabaseServiceInstance.getChunksMissingIndexEmbedding(embeddingModel, batchSize, failedIds);
+      if (chunks.length === 0) break;
+
+      const items = await indexService.generateBatchEmbeddings(
+        chunks.map(chunk => this.getEmbeddingText({ cleanContent: chunk.content, metadata: chunk.metadata })),
+        { persistentCache: true }
+      );
+
+      const rows = items.flatMap(item => {
+        const chunk = chunks[item.index];
+        if (!item.result) {
+          console.warn(`Could not embed chunk ${chunk.chunk_id} of ${chunk.doc_id} for index ${embeddingModel}: ${item.error}`);
+          failedIds.push(chunk.id);
+          return [];
+        }
+        return [{
+          chunk_row_id: chunk.id,
+          doc_id: chunk.doc_id,
+          embedding_model: embeddingModel,
+          embedding_dimension: item.result.dimension,
+          embedding: item.result.embedding,
+          content_hash: chunk.content_hash
+        }];
+      });
+
+      if (rows.length > 0 && !await this.supabaseServiceInstance.upsertChunkIndexEmbeddings(rows)) {
+        throw new Error(`Failed to store embeddings for index: ${embeddingModel}`);
+      }
+
+      embedded += rows.length;
+      console.info(`Embedding index ${embeddingModel}: ${embedded} chunks embedded`);
+    }
+
+    await this.supabaseServiceInstance.updateEmbeddingIndexStatus(embeddingModel, 'building', 'ready');
+
+    if (activate) {
+      if (failedIds.length > 0) {
+        console.warn(`Not activating embedding index ${embeddingModel}: ${failedIds.length} chunks could not be embedded`);
+      } else {
+        await embeddingIndexManager.activate(embeddingModel);
+      }
+    }
+
+    console.info(`Embedding index ${embeddingModel} built: ${embedded} embedded, ${failedIds.length} failed`);
+    return { embeddingModel, embedded, failed: failedIds.length };
+  }
+
+  /**
+   * Register the embedding columns as the inline index of the configured model, or check that they
+   * already are. Another model would mix its vectors into the columns, it goes to a side index instead.
+   */
+  private async ensureInlineEmbeddingIndex(): Promise<void> {
+    const embeddingModel = this.embeddingServiceInstance.getModel();
+    const indexes = await this.supabaseServiceInstance.getEmbeddingIndexes();
+    const inline = indexes.find(index => index.storage === 'inline');
+
+    if (inline && inline.embedding_model !== embeddingModel) {
+      throw new Error(
+        `The embedding columns hold ${inline.embedding_model} vectors but EMBEDDING_MODEL is ${embeddingModel}. ` +
+        `Set EMBEDDING_MODEL back to ${inline.embedding_model} and move to ${embeddingModel} with buildEmbeddingIndex`
+      );
+    }
+
+    if (!inline) {
+      await this.supabaseServiceInstance.registerEmbeddingIndex({
+        embedding_model: embeddingModel,
+        provider: this.embeddingServiceInstance.getProvider(),
+        embedding_dimension: this.embeddingServiceInstance.getDimension(),
+        storage: 'inline',
+        status: 'ready'
+      });
+    }
+  }
+
+  /**
+   * Embed the new and changed chunks of a run into the active index when it is a side index.
+   * The run writes the inline embeddings, which search does not use while a side index is active.
+   */
+  private async refreshActiveSideIndex(): Promise<void> {
+    const index = await embeddingIndexManager.getActiveIndex();
+    if (!index || index.storage !== 'side') return;
+
+    try {
+      const { failed } = await this.buildEmbeddingIndex({
+        provider: index.provider as EmbeddingProviderName,
+        model: index.embedding_model,
+        dimension: index.embedding_dimension
+      });
+      if (failed > 0) {
+        this.progress.errors.push(`Active embedding index ${index.embedding_model}: ${failed} chunks could not be embedded`);
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      console.error(`Could not update active embedding index ${index.embedding_model}:`, error);
+      this.progress.errors.push(`Active embedding index ${index.embedding_model}: ${message}`);
+    }
+  }
+
+  /**
+   * Model tags stored with an embedding, cleared when there is none
+   */
+  private toEmbeddingTags(embedding?: number[]): Pick<DatabaseChunk, 'embedding_model' | 'embedding_dimension'> {
+    return embedding
+      ? { embedding_model: this.embeddingServiceInstance.getModel(), embedding_dimension: embedding.length }
+      : { embedding_model: null, embedding_dimension: null };
+  }
+
   private async storeHybridDocument(
     apiDocument: CrawledDocument,
     markdownDoc: ProcessedDocument,
-    chunks: PageChunk[]
+    chunks: PageChunk[],
+    hashes: DocumentHashFields = {}
   ): Promise<void> {
     console.debug(`Storing hybrid document: ${apiDocument.doc_id}`);
 
     // Create database document using API metadata + markdown content
     const dbDocument: DatabaseDocument = {
-      id: uuidv4(),
+      // Keep the id of a stored document, its chunks reference it
+      id: this.existingDocuments.get(apiDocument.doc_id)?.id || uuidv4(),
       doc_id: apiDocument.doc_id,
       content: markdownDoc.fullContent, // Use markdown content instead of API content
       source: apiDocument.source,
       embedding: (chunks[0])?.embedding, // Use first page embedding for document
+      ...this.toEmbeddingTags(chunks[0]?.embedding),
 
       // Rich metadata from API
-      doc_uuid: apiDocument.doc_uuid,
-      doc_type_code: apiDocument.doc_type_code,
-      doc_type_desc: apiDocument.doc_type_desc,
-      version_code: apiDocument.version_code,
-      doc_long_title: apiDocument.doc_long_title,
-      doc_desc: apiDocument.doc_desc,
-      issue_date: apiDocument.issue_date,
-      guideline_no: apiDocument.guideline_no,
-      supersession_date: apiDocument.supersession_date,
-      topics: apiDocument.topics || [],
-      concepts: apiDocument.concepts || [],
-      document_type: apiDocument.document_type,
-      language: apiDocument.language || 'en',
-      doc_topic_subtopic_list: apiDocument.doc_topic_subtopic_list ? JSON.stringify(apiDocument.doc_topic_subtopic_list).split(',') : [],
-      doc_keyword_list: apiDocument.doc_keyword_list ? JSON.stringify(apiDocument.doc_keyword_list).split(',') : [],
-      doc_ai_type_list: apiDocument.doc_ai_type_list ? JSON.stringify(apiDocument.doc_ai_type_list).split(',') : [],
-      doc_view_list: apiDocument.doc_view_list ? JSON.stringify(apiDocument.doc_view_list).split(',') : [],
-      directly_related_doc_list: apiDocument.directly_related_doc_list ? JSON.stringify(apiDocument.directly_related_doc_list).split(',') : [],
-      version_history_doc_list: apiDocument.version_history_doc_list ? JSON.stringify(apiDocument.version_history_doc_list).split(',') : [],
-      reference_doc_list: apiDocument.reference_doc_list ? JSON.stringify(apiDocument.reference_doc_list).split(',') : [],
-      superseded_doc_list: apiDocument.superseded_doc_list ? JSON.stringify(apiDocument.superseded_doc_list).split(',') : []
+      ...this.toDocumentMetadata(apiDocument),
+      ...hashes
     };
 
     // Store main document
@@ -393,8 +871,11 @@ export class ETLPipeline {
       throw new Error(`Failed to store hybrid document: ${apiDocument.doc_id}`);
     }
 
+    await this.storeDocumentRelations(apiDocument);
+
     // Create database chunks from page chunks
-    const dbChunks = chunks.map((chunk) => {
+    const positions = this.getChunkPositions(chunks);
+    const dbChunks = chunks.map((chunk, index) => {
       // Extract creation date components if available
       const creationYear = markdownDoc.metadata.creationYear || undefined;
       const creationMonth = markdownDoc.metadata.creationMonth || undefined;
@@ -404,12 +885,18 @@ export class ETLPipeline {
         id: uuidv4(),
         doc_id: apiDocument.doc_id,
         document_id: documentId,
-        chunk_id: chunk.pageNumber,
+        chunk_id: index + 1, // position in the document; several chunks can share a page
         content: chunk.cleanContent,
         embedding: chunk.embedding,
+        embedding_missing: !chunk.embedding,
+        embedding_error: chunk.embeddingError ?? null,
+        ...this.toEmbeddingTags(chunk.embedding),
+        content_hash: this.hashText(this.getEmbeddingText(chunk)),
+        metadata: chunk.metadata,
         chunk_type: chunk.metadata.chunkType,
         keywords: chunk.metadata.keywords,
         related_chunks: [],
+        ...this.toHierarchyColumns(chunk, positions),
         creation_year: creationYear,
         creation_month: creationMonth,
         creation_day: creationDay // Note: column name is creation_date in database
@@ -420,33 +907,129 @@ export class ETLPipeline {
     const chunkBatchSize = 50;
     for (let i = 0; i < dbChunks.length; i += chunkBatchSize) {
       const chunkBatch = dbChunks.slice(i, i + chunkBatchSize);
-      const success = await this.supabaseServiceInstance.insertDocumentChunks(chunkBatch);
+      const success = await this.supabaseServiceInstance.upsertDocumentChunks(chunkBatch);
       if (!success) {
         throw new Error(`Failed to store chunk batch for hybrid document: ${apiDocument.doc_id}`);
       }
     }
 
-    console.debug(`Successfully stored hybrid document and ${dbChunks.length} page chunks: ${apiDocument.doc_id}`);
+    // Drop orphaned chunks left over from a longer previous version
+    const orphansDeleted = await this.supabaseServiceInstance.deleteChunksAfter(apiDocument.doc_id, dbChunks.length);
+    if (!orphansDeleted) {
+      throw new Error(`Failed to delete orphaned chunks for hybrid document: ${apiDocument.doc_id}`);
+    }
+
+    console.debug(`Successfully stored hybrid document and ${dbChunks.length} chunks: ${apiDocument.doc_id}`);
   }
 
-  private async storeMetadataOnly(apiDocument: CrawledDocument): Promise<void> {
+  /**
+   * chunk_id of every chunk, keyed by its chunker id
+   */
+  private getChunkPositions(chunks: PageChunk[]): Map<string, number> {
+    return new Map(chunks.map((chunk, index) => [chunk.metadata.chunkId, index + 1]));
+  }
+
+  /**
+   * Translate the chunker's parent / child ids into chunk_id links within the document
+   */
+  private toHierarchyColumns(chunk: PageChunk, positions: Map<string, number>): Pick<DatabaseChunk, 'chunk_level' | 'parent_chunk_id' | 'child_chunk_ids'> {
+    const parent = chunk.metadata.parentChunkId ? positions.get(chunk.metadata.parentChunkId) : undefined;
+    const children = (chunk.metadata.childChunkIds || [])
+      .map(id => positions.get(id))
+      .filter((position): position is number => position !== undefined);
+
+    return {
+      chunk_level: chunk.metadata.level,
+      parent_chunk_id: parent ?? null,
+      child_chunk_ids: children
+    };
+  }
+
+  private async storeMetadataOnly(apiDocument: CrawledDocument, hashes?: DocumentHashFields): Promise<void> {
     console.debug(`Storing metadata-only document: ${apiDocument.doc_id}`);
 
-    // Check if document already exists
-    const existing = await this.supabaseServiceInstance.getDocumentByDocId(apiDocument.doc_id);
-    if (existing) {
+    // Without hashes there is no way to tell whether a stored document changed
+    const existing = hashes
+      ? this.existingDocuments.get(apiDocument.doc_id)
+      : await this.supabaseServiceInstance.getDocumentByDocId(apiDocument.doc_id);
+    if (existing && !hashes) {
       console.debug(`Document already exists, skipping metadata-only storage: ${apiDocument.doc_id}`);
       return;
     }
 
     // Create database document with API metadata but no chunks
     const dbDocument: DatabaseDocument = {
-      id: uuidv4(),
+      id: existing?.id || uuidv4(),
       doc_id: apiDocument.doc_id,
       content: apiDocument.content || '',
       source: apiDocument.source,
       embedding: undefined,
       // Rich metadata from API
+      ...this.toDocumentMetadata(apiDocument),
+      ...hashes
+    };
+
+    // Store main document only
+    const documentId = await this.supabaseServiceInstance.upsertDocument(dbDocument);
+    if (!documentId) {
+      throw new Error(`Failed to store metadata-only document: ${apiDocument.doc_id}`);
+    }
+
+    // The document may have had a markdown file before
+    if (existing) {
+      await this.supabaseServiceInstance.deleteDocumentChunks(apiDocument.doc_id);
+    }
+
+    await this.storeDocumentRelations(apiDocument);
+
+    console.debug(`Successfully stored metadata-only document: ${apiDocument.doc_id}`);
+  }
+
+  /**
+   * Update the API metadata of a stored document whose content did not change
+   */
+  private async updateDocumentMetadata(apiDocument: CrawledDocument, hashes: DocumentHashFields): Promise<void> {
+    console.debug(`Updating metadata of document: ${apiDocument.doc_id}`);
+
+    const success = await this.supabaseServiceInstance.updateDocument(apiDocument.doc_id, {
+      ...this.toDocumentMetadata(apiDocument),
+      metadata_hash: hashes.metadata_hash,
+      source_hash: hashes.source_hash
+    });
+    if (!success) {
+      throw new Error(`Failed to update document metadata: ${apiDocument.doc_id}`);
+    }
+
+    await this.storeDocumentRelations(apiDocument);
+  }
+
+  /**
+   * Delete stored documents that the BRDR API no longer lists, in the languages that were crawled
+   */
+  private async removeMissingDocuments(apiDocuments: CrawledDocument[], languages?: BRDRLanguageCode[]): Promise<void> {
+    const crawledIds = new Set(apiDocuments.map(doc => doc.doc_id));
+    const crawledLanguages = new Set((languages || ['eng', 'chi']).map(langCode => BRDR_LANGUAGES[langCode]));
+    const missing = Array.from(this.existingDocuments.values())
+      .filter(document => !crawledIds.has(document.doc_id) && crawledLanguages.has(document.language || BRDR_LANGUAGES.eng))
+      // Superseded versions drop out of the current listing but are kept for lineage questions
+      .filter(document => !document.supersession_date)
+      .map(document => document.doc_id);
+
+    for (const docId of missing) {
+      const success = await this.deleteDocument(docId);
+      if (success) {
+        this.progress.changes.removed.push(docId);
+      } else {
+        this.errors.push(`Failed to remove document: ${docId}`);
+      }
+    }
+  }
+
+  /**
+   * Document columns taken from the BRDR API, also the input of the metadata hash
+   */
+  private toDocumentMetadata(apiDocument: CrawledDocument): Partial<DatabaseDocument> {
+    return {
       doc_uuid: apiDocument.doc_uuid,
       doc_type_code: apiDocument.doc_type_code,
       doc_type_desc: apiDocument.doc_type_desc,
@@ -456,36 +1039,99 @@ export class ETLPipeline {
       issue_date: apiDocument.issue_date,
       guideline_no: apiDocument.guideline_no,
       supersession_date: apiDocument.supersession_date,
+      consult_sts_code: apiDocument.consult_sts_code,
+      consult_open_date: apiDocument.consult_open_date,
+      consult_cls_date: apiDocument.consult_cls_date,
       topics: apiDocument.topics || [],
       concepts: apiDocument.concepts || [],
       document_type: apiDocument.document_type,
       language: apiDocument.language || 'en',
-      doc_topic_subtopic_list: apiDocument.doc_topic_subtopic_list ? JSON.stringify(apiDocument.doc_topic_subtopic_list).split(',') : [],
-      doc_keyword_list: apiDocument.doc_keyword_list ? JSON.stringify(apiDocument.doc_keyword_list).split(',') : [],
-      doc_ai_type_list: apiDocument.doc_ai_type_list ? JSON.stringify(apiDocument.doc_ai_type_list).split(',') : [],
-      doc_view_list: apiDocument.doc_view_list ? JSON.stringify(apiDocument.doc_view_list).split(',') : [],
-      directly_related_doc_list: apiDocument.directly_related_doc_list ? JSON.stringify(apiDocument.directly_related_doc_list).split(',') : [],
-      version_history_doc_list: apiDocument.version_history_doc_list ? JSON.stringify(apiDocument.version_history_doc_list).split(',') : [],
-      reference_doc_list: apiDocument.reference_doc_list ? JSON.stringify(apiDocument.reference_doc_list).split(',') : [],
-      superseded_doc_list: apiDocument.superseded_doc_list ? JSON.stringify(apiDocument.superseded_doc_list).split(',') : []
+      eng_doc_id: apiDocument.eng_doc_id,
+      chi_doc_id: apiDocument.chi_doc_id,
+      doc_topic_subtopic_list: apiDocument.doc_topic_subtopic_list || [],
+      doc_keyword_list: apiDocument.doc_keyword_list || [],
+      doc_ai_type_list: apiDocument.doc_ai_type_list || [],
+      doc_view_list: apiDocument.doc_view_list || [],
+      directly_related_doc_list: apiDocument.directly_related_doc_list || [],
+      version_history_doc_list: apiDocument.version_history_doc_list || [],
+      reference_doc_list: apiDocument.reference_doc_list || [],
+      superseded_doc_list: apiDocument.superseded_doc_list || []
     };
+  }
 
-    // Store main document only
-    const documentId = await this.supabaseServiceInstance.upsertDocument(dbDocument);
-    if (!documentId) {
-      throw new Error(`Failed to store metadata-only document: ${apiDocument.doc_id}`);
+  /**
+   * Hash of the text a document is chunked from, together with the chunking options that shape its chunks
+   * and the embedding model, so switching models re-embeds the document instead of mixing vector spaces
+   */
+  private hashContent(content: string, options: ETLOptions): string {
+    return this.hashText(JSON.stringify({
+      content,
+      chunking: options.chunkingOptions || {},
+      embeddingModel: this.embeddingServiceInstance.getModel()
+    }));
+  }
+
+  /**
+   * Hash of the bytes of the PDF a document is converted from, with the same settings as its content hash
+   */
+  private hashSource(pdf: Uint8Array, options: ETLOptions): string {
+    return this.hashContent(createHash('sha256').update(pdf).digest('hex'), options);
+  }
+
+  private hashText(text: string): string {
+    return createHash('sha256').update(text).digest('hex');
+  }
+
+  /**
+   * Turn the BRDR related-doc lists of a document into relation graph edges
+   */
+  private buildDocumentRelations(apiDocument: CrawledDocument): DocumentRelation[] {
+    const lists: [DocumentRelationType, RelatedDocItem[] | null | undefined][] = [
+      ['directly_related', apiDocument.directly_related_doc_list],
+      ['reference', apiDocument.reference_doc_list],
+      ['version_history', apiDocument.version_history_doc_list],
+      ['superseded', apiDocument.superseded_doc_list]
+    ];
+
+    const relations = new Map<string, DocumentRelation>();
+
+    for (const [relationType, items] of lists) {
+      for (const item of items || []) {
+        // Skip empty entries and self references (version histories list the document itself)
+        if (!item.docId || item.docId === apiDocument.doc_id) continue;
+
+        relations.set(`${item.docId}|${relationType}`, {
+          source_doc_id: apiDocument.doc_id,
+          target_doc_id: item.docId,
+          relation_type: relationType,
+          target_title: item.docLongTitle,
+          target_issue_date: item.issueDate
+        });
+      }
     }
 
-    console.debug(`Successfully stored metadata-only document: ${apiDocument.doc_id}`);
+    return Array.from(relations.values());
+  }
+
+  private async storeDocumentRelations(apiDocument: CrawledDocument): Promise<void> {
+    const relations = this.buildDocumentRelations(apiDocument);
+    const success = await this.supabaseServiceInstance.replaceDocumentRelations(apiDocument.doc_id, relations);
+    if (!success) {
+      throw new Error(`Failed to store document relations: ${apiDocument.doc_id}`);
+    }
+
+    console.debug(`Stored ${relations.length} document relations: ${apiDocument.doc_id}`);
   }
 
   private createResult(success: boolean, startTime: number): ETLResult {
     return {
+      runId: this.progress.runId,
       success,
       documentsProcessed: this.progress.documentsProcessed,
       chunksCreated: this.progress.chunksCreated,
       embeddingsGenerated: this.progress.embeddingsGenerated,
       errors: this.errors,
+      changes: this.progress.changes,
       processingTime: Date.now() - startTime,
       progress: this.progress
     };
@@ -494,6 +1140,7 @@ export class ETLPipeline {
   async getStats(): Promise<{
     databaseStats: unknown;
     embeddingService: {
+      provider: string;
       model: string;
       dimension: number;
       isReady: boolean;
@@ -502,6 +1149,7 @@ export class ETLPipeline {
     return {
       databaseStats: await this.supabaseServiceInstance.getDatabaseStats(),
       embeddingService: {
+        provider: this.embeddingServiceInstance.getProvider(),
         model: this.embeddingServiceInstance.getModel(),
         dimension: this.embeddingServiceInstance.getDimension(),
         isReady: this.embeddingServiceInstance.isReady()
@@ -562,6 +1210,7 @@ export class ETLPipeline {
       // Use first chunk embedding for document
       if (chunksWithEmbeddings.length > 0 && chunksWithEmbeddings[0].embedding) {
         dbDocument.embedding = chunksWithEmbeddings[0].embedding;
+        Object.assign(dbDocument, this.toEmbeddingTags(dbDocument.embedding));
       }
       
       // Store main document
@@ -571,7 +1220,8 @@ export class ETLPipeline {
       }
       
       // Create database chunks
-      const dbChunks = chunksWithEmbeddings.map((chunk) => {
+      const positions = this.getChunkPositions(chunksWithEmbeddings);
+      const dbChunks = chunksWithEmbeddings.map((chunk, index) => {
         // Extract creation date components if available
         const creationYear = processedDoc.metadata.creationYear || undefined;
         const creationMonth = processedDoc.metadata.creationMonth || undefined;
@@ -581,13 +1231,17 @@ export class ETLPipeline {
           id: uuidv4(),
           doc_id: processedDoc.docId,
           document_id: documentId,
-          chunk_id: chunk.pageNumber,
+          chunk_id: index + 1,
           content: chunk.cleanContent,
           embedding: chunk.embedding,
+          embedding_missing: !chunk.embedding,
+          embedding_error: chunk.embeddingError ?? null,
+          ...this.toEmbeddingTags(chunk.embedding),
           metadata: chunk.metadata,
           chunk_type: chunk.metadata.chunkType,
           keywords: chunk.metadata.keywords,
           related_chunks: [],
+          ...this.toHierarchyColumns(chunk, positions),
           creation_year: creationYear,
           creation_month: creationMonth,
           creation_day: creationDay // Note: column name is creation_date in database
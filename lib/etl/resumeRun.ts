@@ -0,0 +1,37 @@
+import dotenv from 'dotenv';
+
+// The app reads .env.local; the ETL modules read the environment when they are imported, so load it first
+dotenv.config({ path: ['.env.local', '.env'] });
+
+const USAGE = 'Usage: npm run etl:resume -- <runId> [--failed-only]';
+
+/**
+ * Continue an interrupted ETL run from its checkpoints, or with --failed-only process again
+ * only the documents that failed in it. Exits with 1 when the run fails.
+ */
+const main = async () => {
+  const [runId, ...flags] = process.argv.slice(2);
+  if (!runId || runId.startsWith('--')) {
+    console.error(USAGE);
+    process.exit(1);
+  }
+
+  const { etlPipeline } = await import('./ETLPipeline');
+  const result = flags.includes('--failed-only')
+    ? await etlPipeline.retryFailedDocuments(runId)
+    : await etlPipeline.runFullPipeline({ resumeRunId: runId });
+
+  console.info(`ETL run ${runId} ${result.success ? 'completed' : 'failed'}`, {
+    documentsProcessed: result.documentsProcessed,
+    added: result.changes.added.length,
+    updated: result.changes.updated.length,
+    unchanged: result.changes.unchanged.length,
+    errors: result.errors
+  });
+  process.exit(result.success ? 0 : 1);
+};
+
+main().catch(error => {
+  console.error('ETL resume failed:', error instanceof Error ? error.message : error);
+  process.exit(1);
+});
@@ -0,0 +1,49 @@
+import { supabaseService, SupabaseService } from '../database/SupabaseService';
+import { BRDR_LANGUAGES, getBRDRPdfUrl } from '../utils/BRDRLanguages';
+
+export interface LanguageVersion {
+  doc_id: string;
+  language: string;
+  pdf_url: string;
+}
+
+export type LanguageMarked<T> = T & {
+  language: string;
+  pdf_url: string; // PDF of the document the result comes from, in its language
+  translation?: LanguageVersion; // the same document in the other language, when BRDR publishes one
+};
+
+export class LanguageVersionResolver {
+  constructor(private readonly supabaseServiceInstance: SupabaseService = supabaseService) {}
+
+  /**
+   * Mark every result with its document's language and PDF link, and with the other language version,
+   * so an answer can cite the PDF in the language the user asked in
+   */
+  async apply<T extends { doc_id: string }>(results: T[]): Promise<LanguageMarked<T>[]> {
+    const docIds = [...new Set(results.map(result => result.doc_id))];
+    const documents = await this.supabaseServiceInstance.getDocumentsByDocIds(docIds, 'doc_id, language, eng_doc_id, chi_doc_id');
+    const documentsByDocId = new Map(documents.map(document => [document.doc_id, document]));
+
+    return results.map(result => {
+      const document = documentsByDocId.get(result.doc_id);
+      const language = document?.language || BRDR_LANGUAGES.eng;
+
+      const translation = language === BRDR_LANGUAGES.chi
+        ? { doc_id: document?.eng_doc_id, language: BRDR_LANGUAGES.eng }
+        : { doc_id: document?.chi_doc_id, language: BRDR_LANGUAGES.chi };
+
+      return {
+        ...result,
+        language,
+        pdf_url: getBRDRPdfUrl(result.doc_id, language),
+        ...(translation.doc_id && translation.doc_id !== result.doc_id
+          ? { translation: { doc_id: translation.doc_id, language: translation.language, pdf_url: getBRDRPdfUrl(translation.doc_id, translation.language) } }
+          : {})
+      };
+    });
+  }
+}
+
+// Export singleton instance
+export const languageVersionResolver = new LanguageVersionResolver();
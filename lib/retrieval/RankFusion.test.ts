@@ -0,0 +1,96 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { rankFusion } from './RankFusion';
+import type { SearchResult } from '../database/SupabaseService';
+
+const hit = (id: string, scores: Partial<Pick<SearchResult, 'similarity' | 'match_score'>> = {}): SearchResult => ({
+  id,
+  doc_id: `doc-${id}`,
+  content: `content ${id}`,
+  similarity: 0,
+  ...scores
+});
+
+describe('RankFusion', () => {
+  describe('rrf', () => {
+    it('sums 1 / (60 + rank) over the retrievers', () => {
+      const fused = rankFusion.fuse([
+        { retriever: 'vector', results: [hit('a', { similarity: 0.9 }), hit('b', { similarity: 0.8 }), hit('c', { similarity: 0.7 })] },
+        { retriever: 'keyword', results: [hit('b', { match_score: 3 }), hit('d', { match_score: 1 })] }
+      ]);
+
+      assert.deepEqual(fused.map(result => result.id), ['b', 'a', 'd', 'c']);
+      assert.equal(fused[0].fused_score, 1 / 62 + 1 / 61);
+      assert.equal(fused[1].fused_score, 1 / 61);
+      assert.equal(fused[2].fused_score, 1 / 62);
+      assert.equal(fused[3].fused_score, 1 / 63);
+    });
+
+    it('keeps ties in the order the retrievers are given', () => {
+      const fused = rankFusion.fuse([
+        { retriever: 'vector', results: [hit('a', { similarity: 0.2 })] },
+        { retriever: 'keyword', results: [hit('b', { match_score: 9 })] }
+      ]);
+
+      assert.deepEqual(fused.map(result => result.id), ['a', 'b']);
+      assert.equal(fused[0].fused_score, fused[1].fused_score);
+    });
+
+    it('applies the retriever weights and match_count', () => {
+      const fused = rankFusion.fuse([
+        { retriever: 'vector', results: [hit('a', { similarity: 0.9 })] },
+        { retriever: 'keyword', results: [hit('b', { match_score: 1 })] }
+      ], { weights: { keyword: 2 }, match_count: 1 });
+
+      assert.deepEqual(fused.map(result => result.id), ['b']);
+      assert.equal(fused[0].fused_score, 2 / 61);
+    });
+  });
+
+  describe('weighted', () => {
+    it('min-max normalises each retriever before summing', () => {
+      const fused = rankFusion.fuse([
+        { retriever: 'vector', results: [hit('a', { similarity: 0.9 }), hit('b', { similarity: 0.6 }), hit('c', { similarity: 0.3 })] },
+        { retriever: 'keyword', results: [hit('c', { match_score: 4 }), hit('a', { match_score: 2 })] }
+      ], { strategy: 'weighted' });
+
+      assert.deepEqual(fused.map(result => [result.id, Number(result.fused_score.toFixed(6))]), [['a', 1], ['c', 1], ['b', 0.5]]);
+    });
+
+    it('scores every hit as a full match when all scores are equal', () => {
+      const fused = rankFusion.fuse([
+        { retriever: 'full_text', results: [hit('a', { similarity: 0.5 }), hit('b', { similarity: 0.5 })] }
+      ], { strategy: 'weighted' });
+
+      assert.deepEqual(fused.map(result => result.fused_score), [0.5, 0.5]);
+      assert.ok(fused.every(result => Number.isFinite(result.fused_score)));
+    });
+  });
+
+  it('keeps a document found by only one retriever', () => {
+    for (const strategy of ['rrf', 'weighted'] as const) {
+      const fused = rankFusion.fuse([
+        { retriever: 'vector', results: [hit('a', { similarity: 0.9 })] },
+        { retriever: 'keyword', results: [hit('b', { match_score: 2 })] },
+        { retriever: 'full_text', results: null }
+      ], { strategy });
+
+      assert.deepEqual(fused.map(result => result.id).sort(), ['a', 'b']);
+      assert.ok(fused.every(result => result.contributions.length === 1));
+    }
+  });
+
+  it('records the rank and native score of every retriever', () => {
+    const fused = rankFusion.fuse([
+      { retriever: 'vector', results: [hit('a', { similarity: 0.9 }), hit('b', { similarity: 0.4 })] },
+      { retriever: 'keyword', results: [hit('b', { match_score: 7 })] }
+    ]);
+
+    const b = fused.find(result => result.id === 'b')!;
+    assert.deepEqual(b.contributions, [
+      { retriever: 'vector', rank: 2, score: 0.4 },
+      { retriever: 'keyword', rank: 1, score: 7 }
+    ]);
+    assert.equal(b.similarity, 0.4);
+  });
+});
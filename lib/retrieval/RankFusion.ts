@@ -0,0 +1,123 @@
+import { SearchResult } from '../database/SupabaseService';
+
+export type RetrieverName = 'vector' | 'keyword' | 'full_text';
+
+export type FusionStrategy = 'rrf' | 'weighted';
+
+export interface RetrieverResults {
+  retriever: RetrieverName;
+  results: SearchResult[] | null | undefined;
+}
+
+export interface RetrieverContribution {
+  retriever: RetrieverName;
+  rank: number; // 1-based rank within the retriever's own result list
+  score: number; // the retriever's native score (similarity or match score)
+}
+
+export interface FusedSearchResult extends SearchResult {
+  fused_score: number;
+  contributions: RetrieverContribution[];
+}
+
+export interface FusionOptions {
+  strategy?: FusionStrategy;
+  rrf_k?: number;
+  weights?: Partial<Record<RetrieverName, number>>;
+  match_count?: number;
+}
+
+const DEFAULT_WEIGHTS: Record<RetrieverName, number> = {
+  vector: 1,
+  keyword: 1,
+  full_text: 0.5
+};
+
+export class RankFusion {
+  private readonly defaultOptions: Required<Omit<FusionOptions, 'weights' | 'match_count'>> = {
+    strategy: 'rrf',
+    rrf_k: 60
+  };
+
+  /**
+   * Merge the ranked lists of several retrievers into a single list.
+   *
+   * - `rrf`: reciprocal rank fusion, score = sum(weight / (k + rank)). Only ranks matter,
+   *   so keyword hits (which have no similarity) compete fairly with vector hits.
+   * - `weighted`: min-max normalise each retriever's native scores to [0, 1] and sum them
+   *   with the configured weights.
+   */
+  fuse(lists: RetrieverResults[], options: FusionOptions = {}): FusedSearchResult[] {
+    const { strategy, rrf_k } = { ...this.defaultOptions, ...options };
+    const weights = { ...DEFAULT_WEIGHTS };
+    for (const [retriever, weight] of Object.entries(options.weights || {})) {
+      if (weight !== undefined) {
+        weights[retriever as RetrieverName] = weight;
+      }
+    }
+
+    const fused = new Map<string, FusedSearchResult>();
+
+    for (const { retriever, results } of lists) {
+      if (!results || results.length === 0) continue;
+
+      const scores = results.map(result => this.getNativeScore(retriever, result));
+      const normalized = this.normalize(scores);
+      const weight = weights[retriever] ?? 0;
+
+      results.forEach((result, index) => {
+        const rank = index + 1;
+        const contribution = strategy === 'rrf'
+          ? weight / (rrf_k + rank)
+          : weight * normalized[index];
+
+        const existing = fused.get(result.id);
+        if (existing) {
+          existing.fused_score += contribution;
+          existing.contributions.push({ retriever, rank, score: scores[index] });
+          // Prefer the real similarity when a later retriever has one
+          if (result.similarity > existing.similarity) {
+            existing.similarity = result.similarity;
+          }
+        } else {
+          fused.set(result.id, {
+            ...result,
+            fused_score: contribution,
+            contributions: [{ retriever, rank, score: scores[index] }]
+          });
+        }
+      });
+    }
+
+    const ranked = Array.from(fused.values())
+      .sort((a, b) => b.fused_score - a.fused_score);
+
+    return options.match_count ? ranked.slice(0, options.match_count) : ranked;
+  }
+
+  private getNativeScore(retriever: RetrieverName, result: SearchResult): number {
+    switch (retriever) {
+      case 'keyword':
+        return result.match_score ?? 0;
+      case 'vector':
+      case 'full_text':
+      default:
+        return result.similarity ?? 0;
+    }
+  }
+
+  private normalize(scores: number[]): number[] {
+    const max = Math.max(...scores);
+    const min = Math.min(...scores);
+
+    // Every hit scored the same (e.g. full text search): treat them all as full matches
+    if (max === min) {
+      return scores.map(() => 1);
+    }
+
+    return scores.map(score => (score - min) / (max - min));
+  }
+}
+
+// Export singleton instance
+export const rankFusion = new RankFusion();
@@ -0,0 +1,71 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { Reranker, LLMJudge, LLMJudgement } from './Reranker';
+
+const candidates = ['cover page', 'capital ratios', 'liquidity ratios', 'table of contents'].map((content, index) => ({
+  content,
+  similarity: 0.5,
+  fused_score: 1 / (61 + index)
+}));
+
+// Stands in for the LLM, returning the given judgements and recording the passages it was shown
+const stubJudge = (judgements: LLMJudgement[]) => {
+  const calls: string[][] = [];
+  const judge: LLMJudge = async (_question, passages) => {
+    calls.push(passages);
+    return judgements;
+  };
+  return { judge, calls };
+};
+
+describe('Reranker', () => {
+  it('orders the candidates by their rerank score', async () => {
+    const { judge } = stubJudge([{ index: 0, score: 1 }, { index: 1, score: 9 }, { index: 2, score: 6 }, { index: 3, score: 0 }]);
+    const reranked = await new Reranker(judge).rerank('minimum capital ratios', candidates, { strategy: 'llm' });
+
+    assert.deepEqual(reranked.map(result => result.content), ['capital ratios', 'liquidity ratios', 'cover page', 'table of contents']);
+    assert.deepEqual(reranked.map(result => result.rerank_score), [0.9, 0.6, 0.1, 0]);
+    assert.deepEqual(reranked.map(result => result.original_rank), [2, 3, 1, 4]);
+    assert.equal(reranked[0].original_score, 1 / 62);
+  });
+
+  it('only rescores and returns the top_n candidates', async () => {
+    const { judge, calls } = stubJudge([{ index: 0, score: 2 }, { index: 1, score: 8 }]);
+    const reranked = await new Reranker(judge).rerank('capital', candidates, { strategy: 'llm', top_n: 2 });
+
+    assert.deepEqual(calls, [['cover page', 'capital ratios']]);
+    assert.deepEqual(reranked.map(result => result.content), ['capital ratios', 'cover page']);
+  });
+
+  it('truncates passages to max_passage_chars', async () => {
+    const { judge, calls } = stubJudge([]);
+    await new Reranker(judge).rerank('capital', candidates, { strategy: 'llm', max_passage_chars: 5 });
+
+    assert.deepEqual(calls[0], ['cover', 'capit', 'liqui', 'table']);
+  });
+
+  it('ignores scores for indices out of range or scored twice, unscored passages get 0', async () => {
+    const { judge } = stubJudge([
+      { index: 1, score: 7 },
+      { index: 1, score: 10 },
+      { index: 4, score: 10 },
+      { index: -1, score: 10 },
+      { index: 0.5, score: 10 },
+      { index: 3, score: 3 }
+    ]);
+    const reranked = await new Reranker(judge).rerank('capital', candidates, { strategy: 'llm' });
+
+    const scoreOf = (content: string) => reranked.find(result => result.content === content)?.rerank_score;
+    assert.equal(scoreOf('capital ratios'), 0.7);
+    assert.equal(scoreOf('table of contents'), 0.3);
+    assert.equal(scoreOf('cover page'), 0);
+    assert.equal(scoreOf('liquidity ratios'), 0);
+    assert.equal(reranked.length, candidates.length);
+  });
+
+  it('returns nothing for no candidates without calling the scorer', async () => {
+    const { judge, calls } = stubJudge([]);
+    assert.deepEqual(await new Reranker(judge).rerank('capital', [], { strategy: 'llm' }), []);
+    assert.equal(calls.length, 0);
+  });
+});
@@ -0,0 +1,160 @@
+import { generateObject } from 'ai';
+import { z } from 'zod';
+import type { PreTrainedModel, PreTrainedTokenizer } from '@xenova/transformers';
+import { myProvider } from '../ai/providers';
+
+export type RerankStrategy = 'cross-encoder' | 'llm';
+
+export interface RerankCandidate {
+  content: string;
+  similarity: number;
+  fused_score?: number;
+}
+
+export type RerankedResult<T extends RerankCandidate> = T & {
+  original_rank: number;
+  original_score: number;
+  rerank_score: number;
+};
+
+export interface RerankOptions {
+  enabled?: boolean;
+  strategy?: RerankStrategy;
+  top_n?: number; // how many of the fused candidates are rescored
+  cross_encoder_model?: string;
+  llm_model?: string;
+  max_passage_chars?: number;
+}
+
+const llmJudgementSchema = z.object({
+  scores: z.array(z.object({
+    index: z.number().describe('the index of the passage as given in the prompt'),
+    score: z.number().min(0).max(10).describe('how well the passage answers the question, 0 = irrelevant, 10 = answers it directly')
+  }))
+});
+
+export type LLMJudgement = z.infer<typeof llmJudgementSchema>['scores'][number];
+
+// Asks an LLM to score the passages from 0 to 10, by their index in the prompt
+export type LLMJudge = (question: string, passages: string[], modelName: string) => Promise<LLMJudgement[]>;
+
+const judgeWithLLM: LLMJudge = async (question, passages, modelName) => {
+  const { object } = await generateObject({
+    model: myProvider.languageModel(modelName),
+    schema: llmJudgementSchema,
+    prompt: [
+      'You are judging search results for a question about HKMA banking regulation.',
+      'Score every passage from 0 to 10 by how directly it answers the question.',
+      'Cover pages, tables of contents and boilerplate should score low.',
+      '',
+      `Question: ${question}`,
+      '',
+      ...passages.map((passage, index) => `[${index}] ${passage}`)
+    ].join('\n')
+  });
+  return object.scores;
+};
+
+export class Reranker {
+  private readonly defaultOptions: Required<Omit<RerankOptions, 'enabled'>> = {
+    strategy: 'cross-encoder',
+    top_n: 20,
+    cross_encoder_model: 'Xenova/ms-marco-MiniLM-L-6-v2',
+    llm_model: 'azure-sm-model',
+    max_passage_chars: 2000
+  };
+
+  private crossEncoder: Promise<{ tokenizer: PreTrainedTokenizer; model: PreTrainedModel }> | null = null;
+  private crossEncoderModelName: string | null = null;
+
+  constructor(private readonly llmJudge: LLMJudge = judgeWithLLM) {}
+
+  /**
+   * Rescore the candidates against the question and return them in rerank order.
+   * Candidates beyond `top_n` are dropped, they were never rescored.
+   */
+  async rerank<T extends RerankCandidate>(
+    question: string,
+    candidates: T[],
+    options: RerankOptions = {}
+  ): Promise<RerankedResult<T>[]> {
+    const { strategy, top_n, cross_encoder_model, llm_model, max_passage_chars } = { ...this.defaultOptions, ...options };
+
+    const pool = candidates.slice(0, top_n);
+    if (pool.length === 0) {
+      return [];
+    }
+
+    const passages = pool.map(candidate => candidate.content.substring(0, max_passage_chars));
+
+    const scores = strategy === 'llm'
+      ? await this.scoreWithLLM(question, passages, llm_model)
+      : await this.scoreWithCrossEncoder(question, passages, cross_encoder_model);
+
+    return pool
+      .map((candidate, index) => ({
+        ...candidate,
+        original_rank: index + 1,
+        original_score: candidate.fused_score ?? candidate.similarity,
+        rerank_score: scores[index]
+      }))
+      .sort((a, b) => b.rerank_score - a.rerank_score);
+  }
+
+  private async scoreWithCrossEncoder(question: string, passages: string[], modelName: string): Promise<number[]> {
+    const { tokenizer, model } = await this.loadCrossEncoder(modelName);
+
+    const inputs = tokenizer(new Array(passages.length).fill(question), {
+      text_pair: passages,
+      padding: true,
+      truncation: true
+    });
+
+    const { logits } = await model(inputs);
+
+    // ms-marco cross-encoders emit a single relevance logit per pair
+    return Array.from(logits.data as Float32Array).map(logit => 1 / (1 + Math.exp(-logit)));
+  }
+
+  private loadCrossEncoder(modelName: string): Promise<{ tokenizer: PreTrainedTokenizer; model: PreTrainedModel }> {
+    if (!this.crossEncoder || this.crossEncoderModelName !== modelName) {
+      console.log(`Loading cross-encoder model ${modelName}...`);
+      this.crossEncoderModelName = modelName;
+      this.crossEncoder = (async () => {
+        const { AutoTokenizer, AutoModelForSequenceClassification } = await import('@xenova/transformers');
+        const [tokenizer, model] = await Promise.all([
+          AutoTokenizer.from_pretrained(modelName),
+          AutoModelForSequenceClassification.from_pretrained(modelName)
+        ]);
+        return { tokenizer, model };
+      })();
+
+      // Allow a retry on the next call if loading failed
+      this.crossEncoder.catch(() => {
+        this.crossEncoder = null;
+      });
+    }
+
+    return this.crossEncoder;
+  }
+
+  private async scoreWithLLM(question: string, passages: string[], modelName: string): Promise<number[]> {
+    const judgements = await this.llmJudge(question, passages, modelName);
+
+    // Normalise to [0, 1] so both strategies report comparable scores; unscored passages get 0.
+    // Indices out of range or scored a second time are ignored
+    const scores = new Array(passages.length).fill(0);
+    const scored = new Set<number>();
+    for (const { index, score } of judgements) {
+      if (Number.isInteger(index) && index >= 0 && index < passages.length && !scored.has(index)) {
+        scores[index] = score / 10;
+        scored.add(index);
+      }
+    }
+
+    return scores;
+  }
+}
+
+// Export singleton instance
+export const reranker = new Reranker();
@@ -0,0 +1,138 @@
+import type { RelatedDocItem } from '../../crawler/BRDRCrawler';
+import { supabaseService, SupabaseService, DatabaseDocument } from '../database/SupabaseService';
+
+/**
+ * What to do with chunks from superseded documents:
+ * - `demote`: keep them, but after every chunk from current guidance
+ * - `exclude`: drop them, unless nothing current is left
+ * - `include`: keep the retrieval order, only mark them
+ */
+export type SupersessionMode = 'demote' | 'exclude' | 'include';
+
+export interface SupersedingDocument {
+  doc_id: string;
+  title?: string;
+  guideline_no?: string;
+  issue_date?: string;
+}
+
+export interface SupersessionInfo {
+  superseded_on: string;
+  superseded_by: SupersedingDocument[];
+  notice: string;
+}
+
+export type SupersessionMarked<T> = T & {
+  superseded: boolean;
+  supersession?: SupersessionInfo;
+};
+
+export class SupersessionPolicy {
+  constructor(private readonly supabaseServiceInstance: SupabaseService = supabaseService) {}
+
+  /**
+   * Mark results from superseded documents and reorder / filter them according to `mode`
+   */
+  async apply<T extends { doc_id: string }>(
+    results: T[],
+    mode: SupersessionMode = 'demote',
+    now: Date = new Date()
+  ): Promise<SupersessionMarked<T>[]> {
+    const docIds = [...new Set(results.map(result => result.doc_id))];
+    const supersessions = await this.getSupersessions(docIds, now);
+
+    const marked: SupersessionMarked<T>[] = results.map(result => {
+      const supersession = supersessions.get(result.doc_id);
+      return supersession
+        ? { ...result, superseded: true, supersession }
+        : { ...result, superseded: false };
+    });
+
+    const current = marked.filter(result => !result.superseded);
+    const superseded = marked.filter(result => result.superseded);
+
+    switch (mode) {
+      case 'include':
+        return marked;
+      case 'exclude':
+        // Only superseded matches: return them, the notice tells the user what replaced them
+        return current.length > 0 ? current : superseded;
+      case 'demote':
+      default:
+        return [...current, ...superseded];
+    }
+  }
+
+  /**
+   * Look up which of the documents are superseded and by what
+   */
+  async getSupersessions(docIds: string[], now: Date = new Date()): Promise<Map<string, SupersessionInfo>> {
+    const supersessions = new Map<string, SupersessionInfo>();
+
+    const documents = await this.supabaseServiceInstance.getDocumentsByDocIds(
+      docIds,
+      'doc_id, doc_long_title, issue_date, supersession_date, version_history_doc_list'
+    );
+
+    for (const document of documents) {
+      if (!document.supersession_date || new Date(document.supersession_date) > now) {
+        continue;
+      }
+
+      const supersededBy = await this.findReplacements(document);
+      supersessions.set(document.doc_id, {
+        superseded_on: document.supersession_date.substring(0, 10),
+        superseded_by: supersededBy,
+        notice: this.formatNotice(document, supersededBy)
+      });
+    }
+
+    return supersessions;
+  }
+
+  private async findReplacements(document: DatabaseDocument): Promise<SupersedingDocument[]> {
+    // Documents that explicitly list this one as superseded
+    const superseding = await this.supabaseServiceInstance.getSupersedingDocuments(document.doc_id);
+    if (superseding.length > 0) {
+      return superseding.map(doc => ({
+        doc_id: doc.doc_id,
+        title: doc.doc_long_title,
+        guideline_no: doc.guideline_no,
+        issue_date: doc.issue_date
+      }));
+    }
+
+    // Otherwise fall back to the newer, still current entries of the version history
+    const versionHistory: RelatedDocItem[] = Array.isArray(document.version_history_doc_list)
+      ? document.version_history_doc_list
+      : [];
+
+    return versionHistory
+      .filter(item => item.docId && item.docId !== document.doc_id && !item.supersessionDate)
+      .filter(item => !document.issue_date || !item.issueDate || item.issueDate > document.issue_date)
+      .map(item => ({
+        doc_id: item.docId as string,
+        title: item.docLongTitle,
+        guideline_no: item.guidelineNo,
+        issue_date: item.issueDate
+      }));
+  }
+
+  private formatNotice(document: DatabaseDocument, supersededBy: SupersedingDocument[]): string {
+    const date = document.supersession_date?.substring(0, 10);
+    const title = document.doc_long_title ? `"${document.doc_long_title}" (${document.doc_id})` : document.doc_id;
+
+    if (supersededBy.length === 0) {
+      return `${title} has been superseded on ${date}.`;
+    }
+
+    const replacements = supersededBy
+      .map(doc => doc.title ? `"${doc.title}" (${doc.doc_id})` : doc.doc_id)
+      .join(', ');
+
+    return `${title} has been superseded by ${replacements} on ${date}.`;
+  }
+}
+
+// Export singleton instance
+export const supersessionPolicy = new SupersessionPolicy();
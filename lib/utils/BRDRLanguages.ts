@@ -0,0 +1,27 @@
+// Languages BRDR publishes documents in, as the API names them
+export type BRDRLanguageCode = 'eng' | 'chi';
+
+// Value stored in brdr_documents.language for each BRDR language
+export const BRDR_LANGUAGES: Record<BRDRLanguageCode, string> = {
+  eng: 'en',
+  chi: 'zh-Hant'
+};
+
+const PDF_URL_TEMPLATE = "https://brdr.hkma.gov.hk/{lang}/doc-ldg/docId/getPdf/{doc_id}/{doc_id}.pdf";
+
+/**
+ * BRDR language of a stored language value, English when unknown
+ */
+export function toBRDRLanguageCode(language?: string | null): BRDRLanguageCode {
+  const entry = Object.entries(BRDR_LANGUAGES).find(([, value]) => value === language);
+  return (entry?.[0] as BRDRLanguageCode | undefined) || 'eng';
+}
+
+/**
+ * Link to the PDF of a document, in the BRDR site section of its language
+ */
+export function getBRDRPdfUrl(docId: string, language?: string | null): string {
+  return PDF_URL_TEMPLATE
+    .replace('{lang}', toBRDRLanguageCode(language))
+    .replace(/{doc_id}/g, docId);
+}
@@ -2,6 +2,8 @@ import type { NextConfig } from "next";
 
 const nextConfig: NextConfig = {
   /* config options here */
+  // Transformers.js loads onnxruntime-node at runtime, keep it out of the server bundle
+  serverExternalPackages: ['@xenova/transformers'],
 };
 
 export default nextConfig;